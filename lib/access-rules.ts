@@ -0,0 +1,205 @@
+/**
+ * Model of Grist's granular access rules, which are stored in the metadata tables
+ * _grist_ACLResources (the tables and columns rules apply to) and _grist_ACLRules, and planning
+ * of the user actions that change them.
+ */
+import isEqual = require('lodash/isEqual');
+import pickBy = require('lodash/pickBy');
+import {IRecord, makeTableData} from './grist-api';
+import {UserActionBatch} from './user-actions';
+
+// An access rule to create, or as expected by ensureAccessRules.
+export interface IAccessRuleSpec {
+  // Table the rule applies to; '*' for all tables, or '*SPECIAL' for special rules such as
+  // permission to edit structure, named by colIds (e.g. ['SchemaEdit']).
+  tableId: string;
+  // Columns the rule applies to; '*' (the default) for all of them.
+  colIds?: string[] | '*';
+  // Condition for the rule to apply, e.g. "user.Access != OWNER and rec.Owner != user.Email".
+  // Empty (the default) for the rule that applies when no other rule for the resource does.
+  aclFormula?: string;
+  // Permissions granted or denied when the rule applies, e.g. "-CUD", "+R", "all" or "none".
+  permissionsText: string;
+  memo?: string;
+}
+
+// An access rule in a document.
+export interface IAccessRule extends Required<IAccessRuleSpec> {
+  id: number;
+  // Row id of the rule's resource in _grist_ACLResources.
+  resourceId: number;
+  // Rules are checked in order of rulePos; for each permission, the first matching rule decides.
+  rulePos: number;
+}
+
+// Changes to access rules, for updateAccessRules. Changing tableId or colIds moves the rule to
+// another resource.
+export type AccessRuleUpdate = Partial<IAccessRuleSpec> & {id: number};
+
+// Result of ensureAccessRules: the numbers of rules added, updated and removed.
+export interface IEnsureAccessRulesResult {
+  numAdded: number;
+  numUpdated: number;
+  numRemoved: number;
+}
+
+// Rows of _grist_ACLResources and _grist_ACLRules, as fetched.
+export interface IAccessRulesData {
+  resources: IRecord[];
+  rules: IRecord[];
+}
+
+interface IAccessRuleChanges {
+  add?: Array<IAccessRuleSpec & {rulePos?: number}>;
+  update?: Array<AccessRuleUpdate & {rulePos?: number}>;
+  remove?: number[];
+}
+
+/**
+ * Parses the rows of the ACL metadata tables into rules, ordered by rulePos. Rows defining user
+ * attributes rather than permissions are skipped, as are rules of the placeholder resource with an
+ * empty tableId, which Grist keeps in every document for legacy reasons.
+ */
+export function parseAccessRules(data: IAccessRulesData): IAccessRule[] {
+  const resources = new Map(data.resources.filter((res) => res.tableId)
+    .map((res) => [res.id as number, res]));
+  return data.rules
+    .filter((rule) => !rule.userAttributes && resources.has(rule.resource as number))
+    .map((rule) => {
+      const res = resources.get(rule.resource as number)!;
+      return {
+        id: rule.id as number,
+        resourceId: res.id as number,
+        tableId: res.tableId as string,
+        colIds: parseColIds(res.colIds as string),
+        aclFormula: (rule.aclFormula as string) || '',
+        permissionsText: (rule.permissionsText as string) || '',
+        memo: (rule.memo as string) || '',
+        rulePos: rule.rulePos as number,
+      };
+    })
+    .sort((a, b) => a.rulePos - b.rulePos);
+}
+
+/**
+ * Returns user actions to make the given changes to the rules in `data`. Resources are added as
+ * needed, referenced by negative row ids which Grist resolves within the same request, and
+ * resources left without rules are removed.
+ *
+ * Added rules without an explicit rulePos go after the existing rules of their resource, but
+ * before its default rule (the one with an empty aclFormula), so that they can take effect.
+ */
+export function planAccessRuleChanges(data: IAccessRulesData, changes: IAccessRuleChanges): UserActionBatch {
+  const batch = new UserActionBatch();
+  const existing = parseAccessRules(data);
+  const resourceIds = new Map(data.resources.map((res) => [getResourceKey(res.tableId as string,
+    parseColIds(res.colIds as string)), res.id as number]));
+  const newResources: IRecord[] = [];
+  const getResourceId = (tableId: string, colIds: string[] | '*' = '*'): number => {
+    const key = getResourceKey(tableId, colIds);
+    let resourceId = resourceIds.get(key);
+    if (resourceId === undefined) {
+      resourceId = -(newResources.length + 1);
+      newResources.push({id: resourceId, tableId, colIds: formatColIds(colIds)});
+      resourceIds.set(key, resourceId);
+    }
+    return resourceId;
+  };
+
+  // Positions in use, to find room for added rules before a resource's default rule.
+  const positions = data.rules.map((rule) => rule.rulePos as number);
+  let maxPos = Math.max(0, ...positions);
+  const added = (changes.add || []).map((spec) => {
+    const resource = getResourceId(spec.tableId, spec.colIds);
+    const aclFormula = spec.aclFormula || '';
+    let rulePos = spec.rulePos;
+    if (rulePos === undefined) {
+      const defaultRule = aclFormula ?
+        existing.find((rule) => rule.resourceId === resource && !rule.aclFormula) : undefined;
+      if (defaultRule) {
+        const before = Math.max(defaultRule.rulePos - 1, ...positions.filter((p) => p < defaultRule.rulePos));
+        rulePos = (before + defaultRule.rulePos) / 2;
+      } else {
+        rulePos = ++maxPos;
+      }
+    }
+    positions.push(rulePos);
+    maxPos = Math.max(maxPos, rulePos);
+    return {resource, aclFormula, permissionsText: spec.permissionsText, memo: spec.memo || '', rulePos};
+  });
+
+  const removed = new Set(changes.remove || []);
+  const updated = (changes.update || []).map(({id, tableId, colIds, ...fields}) => {
+    const rule = existing.find((r) => r.id === id);
+    if (!rule) { throw new Error(`Access rule ${id} not found`); }
+    const resource = (tableId !== undefined || colIds !== undefined) ?
+      getResourceId(tableId ?? rule.tableId, colIds ?? rule.colIds) : undefined;
+    return {id, ...pickBy(fields, (v) => v !== undefined), ...(resource !== undefined ? {resource} : {})} as IRecord;
+  });
+
+  if (newResources.length > 0) {
+    const {id, ...colValues} = makeTableData(newResources);
+    batch.add(['BulkAddRecord', '_grist_ACLResources', id, colValues]);
+  }
+  if (added.length > 0) { batch.bulkAddRecord('_grist_ACLRules', added); }
+  if (updated.length > 0) { batch.bulkUpdateRecord('_grist_ACLRules', updated); }
+  if (removed.size > 0) { batch.bulkRemoveRecord('_grist_ACLRules', Array.from(removed)); }
+
+  // Remove resources no longer used by any rule (including ones defining user attributes), other
+  // than the placeholder one.
+  const movedRules = new Map(updated.filter((rule) => rule.resource !== undefined)
+    .map((rule) => [rule.id as number, rule.resource as number]));
+  const usedResources = new Set([
+    ...data.rules.filter((rule) => !removed.has(rule.id as number))
+      .map((rule) => movedRules.get(rule.id as number) ?? rule.resource as number),
+    ...added.map((rule) => rule.resource),
+  ]);
+  const unused = data.resources.filter((res) => res.tableId)
+    .map((res) => res.id as number).filter((id) => !usedResources.has(id));
+  if (unused.length > 0) { batch.bulkRemoveRecord('_grist_ACLResources', unused); }
+  return batch;
+}
+
+/**
+ * Returns the changes that make the rules in `data` match `specs` exactly, in the given order.
+ * Existing rules are matched to specs by resource and aclFormula.
+ */
+export function planEnsureAccessRules(data: IAccessRulesData, specs: IAccessRuleSpec[]):
+    {changes: IAccessRuleChanges, result: IEnsureAccessRulesResult} {
+  const unmatched = parseAccessRules(data);
+  const add: IAccessRuleChanges['add'] = [];
+  const update: IAccessRuleChanges['update'] = [];
+  specs.forEach((spec, index) => {
+    const rulePos = index + 1;
+    const key = getResourceKey(spec.tableId, spec.colIds || '*');
+    const aclFormula = spec.aclFormula || '';
+    const matchIndex = unmatched.findIndex((r) =>
+      getResourceKey(r.tableId, r.colIds) === key && r.aclFormula === aclFormula);
+    if (matchIndex < 0) {
+      add.push({...spec, rulePos});
+      return;
+    }
+    const [rule] = unmatched.splice(matchIndex, 1);
+    const fields = {permissionsText: spec.permissionsText, memo: spec.memo || '', rulePos};
+    if (!isEqual(fields, {permissionsText: rule.permissionsText, memo: rule.memo, rulePos: rule.rulePos})) {
+      update.push({id: rule.id, ...fields});
+    }
+  });
+  const remove = unmatched.map((rule) => rule.id);
+  return {
+    changes: {add, update, remove},
+    result: {numAdded: add.length, numUpdated: update.length, numRemoved: remove.length},
+  };
+}
+
+function parseColIds(colIds: string): string[] | '*' {
+  return colIds === '*' ? '*' : colIds.split(',').map((c) => c.trim()).filter(Boolean);
+}
+
+function formatColIds(colIds: string[] | '*'): string {
+  return colIds === '*' ? '*' : colIds.join(',');
+}
+
+function getResourceKey(tableId: string, colIds: string[] | '*'): string {
+  return JSON.stringify([tableId, colIds === '*' ? '*' : colIds.slice().sort()]);
+}
@@ -0,0 +1,102 @@
+/**
+ * Conversion between Grist's encoded cell values and plain JS values.
+ *
+ * Grist represents some values as arrays tagged by a one-letter code, e.g. ['L', 'a', 'b'] for a
+ * list, or ['R', 'People', 17] for a reference. decodeCellValue() turns these into JS values,
+ * and encodeCellValue() turns JS values back into what Grist accepts when writing.
+ */
+import mapValues = require('lodash/mapValues');
+import {CellValue, IRecord} from './grist-api';
+
+/**
+ * Error value in a cell, such as the result of a failing formula.
+ */
+export class CellError {
+  constructor(public readonly errorType: string, public readonly message?: string,
+              public readonly details?: any) {}
+
+  public toString() {
+    return this.message ? `#${this.errorType}: ${this.message}` : `#${this.errorType}`;
+  }
+}
+
+/**
+ * Reference to a row of another table.
+ */
+export class Reference {
+  constructor(public readonly tableId: string, public readonly rowId: number) {}
+}
+
+/**
+ * Reference to a list of rows of another table.
+ */
+export class ReferenceList {
+  constructor(public readonly tableId: string, public readonly rowIds: number[]) {}
+}
+
+/**
+ * Value of a formula that has not been calculated yet.
+ */
+export class PendingValue {}
+
+/**
+ * Value hidden from the user by access rules.
+ */
+export class CensoredValue {}
+
+// Decoded value of a Grist cell. Tagged values for which there is no JS equivalent are left as is.
+export type TypedCellValue = number | string | boolean | null | Date | CellError | Reference | ReferenceList |
+  PendingValue | CensoredValue | TypedCellValue[] | {[key: string]: any};
+
+// Record with decoded cell values.
+export interface ITypedRecord { [colId: string]: TypedCellValue; }
+
+/**
+ * Decodes a Grist cell value. Lists become arrays, dates and datetimes become Date objects,
+ * references become Reference or ReferenceList objects, and errors become CellError objects.
+ *
+ * Note that values in Date, DateTime and Ref columns are returned by Grist as plain numbers
+ * (timestamps in seconds and row ids), which are left unchanged; tagged values show up mainly in
+ * formula columns of type Any, and in ChoiceList and RefList columns.
+ */
+export function decodeCellValue(value: CellValue): TypedCellValue {
+  if (!Array.isArray(value) || typeof value[0] !== 'string') { return value; }
+  const [code, ...args] = value;
+  switch (code) {
+    case 'L': return args.map(decodeCellValue);
+    case 'O': return mapValues(args[0], decodeCellValue);
+    case 'D': return new Date(args[0] * 1000);
+    case 'd': return new Date(args[0] * 1000);
+    case 'R': return new Reference(args[0], args[1]);
+    case 'r': return new ReferenceList(args[0], args[1]);
+    case 'E': return new CellError(args[0], args[1], args[2]);
+    case 'P': return new PendingValue();
+    case 'C': return new CensoredValue();
+    default: return value;
+  }
+}
+
+/**
+ * Encodes a JS value for sending to Grist. This is the reverse of decodeCellValue(), except that
+ * Date objects become timestamps in seconds and references become row ids, which is what Grist
+ * expects in Date, DateTime and Ref columns. Throws for values that can't be written.
+ */
+export function encodeCellValue(value: TypedCellValue): CellValue {
+  if (value === null || typeof value !== 'object') { return value; }
+  if (Array.isArray(value)) { return ['L', ...value.map(encodeCellValue)]; }
+  if (value instanceof Date) { return value.getTime() / 1000; }
+  if (value instanceof Reference) { return value.rowId; }
+  if (value instanceof ReferenceList) { return ['L', ...value.rowIds]; }
+  if (value instanceof CellError || value instanceof PendingValue || value instanceof CensoredValue) {
+    throw new Error(`Cannot write ${value.constructor.name} to a Grist cell`);
+  }
+  return ['O', mapValues(value, encodeCellValue)];
+}
+
+export function decodeRecord(record: IRecord): ITypedRecord {
+  return mapValues(record, decodeCellValue);
+}
+
+export function encodeRecord(record: ITypedRecord): IRecord {
+  return mapValues(record, encodeCellValue);
+}
@@ -0,0 +1,293 @@
+#!/usr/bin/env node
+/**
+ * Command-line tool for working with Grist, installed as `grist-api`. Run `grist-api help` for
+ * usage.
+ */
+import flatten = require('lodash/flatten');
+import {makeProfileCredentials} from './credentials';
+import {formatDryRunPlan} from './dry-run';
+import {CellValue, GristDocAPI, IGristCallConfig, IRecord} from './grist-api';
+
+import type * as FsExtra from 'fs-extra';
+
+const usage = `Usage: grist-api <command> [options]
+
+Commands:
+  orgs                      List organizations
+  workspaces --org ID       List workspaces of an organization
+  docs --org ID             List documents, optionally only those in --workspace ID
+  tables --doc DOC          List tables of a document
+  fetch --doc DOC --table T Fetch records, optionally with --filters JSON, --sort COLS, --limit N
+  add --doc DOC --table T   Add records from input, printing the new row ids
+  update --doc DOC --table T
+                            Update records from input; each must include its id
+  sync --doc DOC --table T --keys COLS
+                            Add or update records from input, matching on key columns
+                            (comma-separated), optionally with --filters JSON, --delete-missing
+  download --doc DOC        Download the .grist file to --output FILE, or to stdout;
+                            optionally with --nohistory, --template
+
+Options:
+  --server URL              Grist server (taken from --doc if it's a URL)
+  --doc DOC                 Document URL or id
+  --api-key KEY             API key; by default, taken from GRIST_API_KEY, the profile matching
+                            the server in ~/.grist-api.json, or ~/.grist-api-key
+  --profile NAME            Use the API key of this profile in ~/.grist-api.json
+  --input FILE              Read records from FILE rather than stdin
+  --input-format json|csv   Format of input records (default: from file extension, or json)
+  --csv-numbers             Convert CSV values that look like numbers, such as 12 or -0.5 (but not
+                            007 or 1e5), to numbers; by default, CSV values are sent as text
+  --format json|csv|table   Output format (default: json)
+  --dry-run                 Don't make changes; print what would have been changed
+`;
+
+interface ICliArgs {
+  command: string;
+  options: {[name: string]: string | boolean};
+}
+
+/**
+ * Parses arguments like `fetch --doc abc --limit=5 --dry-run` into a command and options.
+ */
+export function parseArgs(argv: string[]): ICliArgs {
+  const options: {[name: string]: string | boolean} = {};
+  const positional: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const match = /^--([^=]+)(?:=(.*))?$/.exec(arg);
+    if (!match) {
+      positional.push(arg);
+    } else if (match[2] !== undefined) {
+      options[match[1]] = match[2];
+    } else if (i + 1 < argv.length && !argv[i + 1].startsWith('--')) {
+      options[match[1]] = argv[++i];
+    } else {
+      options[match[1]] = true;
+    }
+  }
+  return {command: positional[0] || 'help', options};
+}
+
+/**
+ * Runs the command-line tool with the given arguments (excluding "node" and the script name).
+ */
+export async function main(argv: string[]): Promise<void> {
+  const {command, options} = parseArgs(argv);
+  const opt = (name: string): string | undefined => {
+    const value = options[name];
+    if (typeof value === 'boolean') { throw new Error(`Option --${name} requires a value`); }
+    return value;
+  };
+  const required = (name: string): string => {
+    const value = opt(name);
+    if (value === undefined) { throw new Error(`Command ${command} requires --${name}`); }
+    return value;
+  };
+
+  if (command === 'help' || options.help) {
+    process.stdout.write(usage);
+    return;
+  }
+
+  const config: IGristCallConfig = {dryrun: Boolean(options['dry-run'])};
+  if (opt('server')) { config.server = opt('server'); }
+  if (opt('api-key') !== undefined) { config.apiKey = opt('api-key'); }
+  if (opt('profile')) { config.credentials = makeProfileCredentials({profile: opt('profile')}); }
+  const api = new GristDocAPI(config);
+  if (opt('doc')) { api.setDocId(opt('doc')!); }
+  const filters = opt('filters') ? JSON.parse(opt('filters')!) : undefined;
+
+  switch (command) {
+    case 'orgs': {
+      printRecords(await api.listOrgs(), opt('format'));
+      break;
+    }
+    case 'workspaces': {
+      const workspaces = await api.listWorkspaces({orgId: required('org')});
+      printRecords(workspaces.map(({docs, ...ws}) => ({...ws, numDocs: docs?.length ?? 0})), opt('format'));
+      break;
+    }
+    case 'docs': {
+      const workspaceId = opt('workspace');
+      const workspaces = await api.listWorkspaces({orgId: required('org')});
+      const docs = flatten(workspaces
+        .filter((ws) => workspaceId === undefined || String(ws.id) === workspaceId)
+        .map((ws) => (ws.docs || []).map((doc) => ({id: doc.id, name: doc.name, workspaceId: ws.id,
+                                                    workspace: ws.name}))));
+      printRecords(docs, opt('format'));
+      break;
+    }
+    case 'tables': {
+      required('doc');
+      const tables = await api.listTables({});
+      printRecords(tables.map((table) => ({id: table.id})), opt('format'));
+      break;
+    }
+    case 'fetch': {
+      required('doc');
+      const limit = opt('limit') ? parseInt(opt('limit')!, 10) : undefined;
+      const records = await api.fetchTable({tableName: required('table'), filters, sort: opt('sort'), limit});
+      printRecords(records, opt('format'));
+      break;
+    }
+    case 'add': {
+      required('doc');
+      const records = await readRecords(opt('input'), opt('input-format'), Boolean(options['csv-numbers']));
+      const rowIds = await api.addRecords({tableName: required('table'), records});
+      printRecords(rowIds.map((id) => ({id})), opt('format'));
+      break;
+    }
+    case 'update': {
+      required('doc');
+      const records = await readRecords(opt('input'), opt('input-format'), Boolean(options['csv-numbers']));
+      await api.updateRecords({tableName: required('table'), records});
+      break;
+    }
+    case 'sync': {
+      required('doc');
+      const records = await readRecords(opt('input'), opt('input-format'), Boolean(options['csv-numbers']));
+      const keyColIds = required('keys').split(',');
+      const result = await api.syncTable({tableName: required('table'), records, keyColIds, filters,
+                                          deleteMissing: Boolean(options['delete-missing'])});
+      printRecords([result], opt('format'));
+      break;
+    }
+    case 'download': {
+      required('doc');
+      const data = await api.downloadDoc({nohistory: Boolean(options.nohistory), template: Boolean(options.template)});
+      const output = opt('output');
+      if (output) {
+        const fse: typeof FsExtra = require('fs-extra');
+        await fse.writeFile(output, Buffer.from(data));
+      } else {
+        process.stdout.write(Buffer.from(data));
+      }
+      break;
+    }
+    default:
+      throw new Error(`Unknown command ${command}; run "grist-api help" for usage`);
+  }
+
+  if (config.dryrun && api.getDryRunPlan().length > 0) {
+    process.stderr.write(formatDryRunPlan(api.getDryRunPlan()) + '\n');
+  }
+}
+
+/**
+ * Reads records from a file, or stdin if none is given, as a JSON array of objects, or CSV with a
+ * header row (see parseCsvRecords).
+ */
+async function readRecords(inputPath?: string, inputFormat?: string, csvNumbers?: boolean): Promise<IRecord[]> {
+  let text: string;
+  if (inputPath) {
+    const fse: typeof FsExtra = require('fs-extra');
+    text = await fse.readFile(inputPath, {encoding: 'utf8'});
+  } else {
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) { chunks.push(chunk as Buffer); }
+    text = Buffer.concat(chunks).toString('utf8');
+  }
+  const format = inputFormat || (inputPath && /\.csv$/i.test(inputPath) ? 'csv' : 'json');
+  if (format === 'json') {
+    const records = JSON.parse(text);
+    if (!Array.isArray(records)) { throw new Error('JSON input must be an array of records'); }
+    return records;
+  }
+  if (format !== 'csv') { throw new Error(`Unknown input format ${format}`); }
+  return parseCsvRecords(text, {numbers: csvNumbers});
+}
+
+/**
+ * Parses CSV text with a header row of column ids into records. Values are kept as strings, for
+ * Grist to convert according to the column types, unless options.numbers is set, in which case
+ * plain decimal numbers (without leading zeros or exponents, which may be meant as text, like
+ * "007") are converted to numbers.
+ */
+export function parseCsvRecords(text: string, options: {numbers?: boolean} = {}): IRecord[] {
+  const [headers = [], ...rows] = parseCsv(text);
+  return rows.map((row) => {
+    const rec: IRecord = {};
+    headers.forEach((colId, i) => { rec[colId] = parseCsvValue(row[i] ?? '', options.numbers); });
+    return rec;
+  });
+}
+
+function parseCsvValue(value: string, numbers?: boolean): CellValue {
+  return (numbers && /^-?(0|[1-9]\d*)(\.\d+)?$/.test(value)) ? Number(value) : value;
+}
+
+/**
+ * Parses CSV text (RFC 4180, with quoted values possibly containing commas and newlines).
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = '';
+  let inQuotes = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (inQuotes) {
+      if (c === '"' && text[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (c === '"') {
+        inQuotes = false;
+      } else {
+        value += c;
+      }
+    } else if (c === '"') {
+      inQuotes = true;
+    } else if (c === ',') {
+      row.push(value);
+      value = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') { i++; }
+      row.push(value);
+      rows.push(row);
+      value = '';
+      row = [];
+    } else {
+      value += c;
+    }
+  }
+  if (value || row.length > 0) { row.push(value); rows.push(row); }
+  return rows;
+}
+
+function formatCell(value: any): string {
+  if (value === null || value === undefined) { return ''; }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function quoteCsv(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Prints records to stdout as JSON, CSV, or an aligned text table.
+ */
+function printRecords(records: object[], format: string = 'json') {
+  if (format === 'json') {
+    process.stdout.write(JSON.stringify(records, null, 2) + '\n');
+    return;
+  }
+  const headers = Array.from(new Set(flatten(records.map((rec) => Object.keys(rec)))));
+  const rows = [headers, ...records.map((rec) => headers.map((h) => formatCell(Reflect.get(rec, h))))];
+  if (format === 'csv') {
+    process.stdout.write(rows.map((row) => row.map(quoteCsv).join(',')).join('\n') + '\n');
+  } else if (format === 'table') {
+    const widths = headers.map((h, i) => Math.max(...rows.map((row) => row[i].length)));
+    const lines = rows.map((row) => row.map((v, i) => v.padEnd(widths[i])).join('  ').trimRight());
+    lines.splice(1, 0, widths.map((w) => '-'.repeat(w)).join('  '));
+    process.stdout.write(lines.join('\n') + '\n');
+  } else {
+    throw new Error(`Unknown output format ${format}`);
+  }
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).catch((err) => {
+    process.stderr.write(`grist-api: ${err.message}\n`);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,218 @@
+/**
+ * Providers of the credentials that authenticate requests to Grist: API keys given directly, or
+ * found in the environment, in a file, or in named server profiles; keys obtained by a callback,
+ * e.g. from a vault; and session headers forwarded from another request.
+ */
+import escapeRegExp = require('lodash/escapeRegExp');
+
+import type * as FsExtra from 'fs-extra';
+
+// Headers that authenticate a request, e.g. {Authorization: 'Bearer <key>'} or {Cookie: '...'}.
+export interface IAuthHeaders {
+  [name: string]: string;
+}
+
+// Supplies credentials for requests, as the `credentials` option of IGristCallConfig.
+export interface ICredentialProvider {
+  // Returns headers for a request to `server` (which may include an /o/{org} part), or null if
+  // the provider has no credentials for it. Called for every request, including retries.
+  getHeaders(server: string): Promise<IAuthHeaders | null>;
+  // Called when the server rejects the credentials (HTTP 401), to drop any cached ones. The
+  // request is then repeated once, with headers from a new call to getHeaders.
+  invalidate?(server: string): void;
+}
+
+// A named server profile in the profiles config file.
+export interface IServerProfile {
+  // URL of the server, e.g. "https://grist.example.com". The profile applies to any URL under it,
+  // such as "https://grist.example.com/o/team". A "*" matches any part of a host name, as in
+  // "https://*.getgrist.com".
+  server: string;
+  apiKey?: string;
+  // Name of an environment variable holding the API key, to keep the key out of the file.
+  apiKeyEnv?: string;
+}
+
+// Contents of the profiles config file (a JSON file, ~/.grist-api.json by default).
+export interface IProfilesConfig {
+  profiles: {[name: string]: IServerProfile};
+}
+
+export interface ProfileCredentialsOptions {
+  // Path of the config file; defaults to the GRIST_API_CONFIG env variable, or ~/.grist-api.json.
+  configPath?: string;
+  // Name of the profile to use for all servers, rather than the one matching each server.
+  profile?: string;
+}
+
+export interface CallbackCredentialsOptions {
+  // How long to reuse the result of the callback for a server, in ms (default: until the server
+  // rejects it).
+  ttlMs?: number;
+}
+
+/**
+ * Uses the given API key for all servers.
+ */
+export function makeStaticCredentials(apiKey: string): ICredentialProvider {
+  return { getHeaders: async () => makeBearerHeaders(apiKey) };
+}
+
+/**
+ * Uses the API key in the given environment variable, if set.
+ */
+export function makeEnvCredentials(varName: string = 'GRIST_API_KEY'): ICredentialProvider {
+  return {
+    getHeaders: async () => {
+      const apiKey = getProcess().env[varName];
+      return apiKey !== undefined ? makeBearerHeaders(apiKey) : null;
+    },
+  };
+}
+
+/**
+ * Uses the API key stored in the given file (by default, ~/.grist-api-key), if it exists. The
+ * file is read on first use.
+ */
+export function makeFileCredentials(keyPath?: string): ICredentialProvider {
+  let apiKey: Promise<string | null> | null = null;
+  return {
+    getHeaders: async () => {
+      apiKey = apiKey || readOptionalFile(keyPath || getDefaultKeyPath());
+      const key = await apiKey;
+      return key !== null ? makeBearerHeaders(key.trim()) : null;
+    },
+  };
+}
+
+/**
+ * Uses the result of the callback, which may return an API key or headers, e.g. after fetching
+ * a key from a vault or refreshing a session. Results are reused until the server rejects them,
+ * or for ttlMs if given; failed calls are not reused.
+ */
+export function makeCallbackCredentials(callback: (server: string) => Promise<string | IAuthHeaders | null>,
+                                        options: CallbackCredentialsOptions = {}): ICredentialProvider {
+  const cache = new Map<string, {expiresAt: number, headers: Promise<IAuthHeaders | null>}>();
+  return {
+    getHeaders: (server) => {
+      const entry = cache.get(server);
+      if (entry && entry.expiresAt > Date.now()) { return entry.headers; }
+      const headers = callback(server).then((result) =>
+        typeof result === 'string' ? makeBearerHeaders(result) : result);
+      cache.set(server, {expiresAt: Date.now() + (options.ttlMs ?? Infinity), headers});
+      headers.catch(() => {
+        if (cache.get(server)?.headers === headers) { cache.delete(server); }
+      });
+      return headers;
+    },
+    invalidate: (server) => { cache.delete(server); },
+  };
+}
+
+/**
+ * Sends the given headers as they are, e.g. the Cookie header of a request to your own server
+ * from a user signed in to Grist on the same domain, to make requests on their behalf.
+ */
+export function makeHeaderCredentials(headers: IAuthHeaders): ICredentialProvider {
+  return { getHeaders: async () => headers };
+}
+
+/**
+ * Uses the API key of the profile in the config file matching the server, or of the named profile
+ * if options.profile is set. If several profiles match, the one with the longest server URL wins.
+ * The file is read on first use; if it doesn't exist, no credentials are provided.
+ */
+export function makeProfileCredentials(options: ProfileCredentialsOptions = {}): ICredentialProvider {
+  let config: Promise<IProfilesConfig | null> | null = null;
+  return {
+    getHeaders: async (server) => {
+      const configPath = options.configPath || getDefaultConfigPath();
+      config = config || readOptionalFile(configPath).then((text) => text === null ? null : JSON.parse(text));
+      const profiles = (await config)?.profiles || {};
+      const name = options.profile ?? findServerProfile(profiles, server);
+      if (name === undefined) { return null; }
+      const profile = profiles[name];
+      if (!profile) { throw new Error(`Profile "${name}" not found in ${configPath}`); }
+      const apiKey = profile.apiKeyEnv ? getProcess().env[profile.apiKeyEnv] : profile.apiKey;
+      if (apiKey === undefined) {
+        throw new Error(`Profile "${name}" in ${configPath} has no API key` +
+          (profile.apiKeyEnv ? `: ${profile.apiKeyEnv} is not set` : ''));
+      }
+      return makeBearerHeaders(apiKey);
+    },
+  };
+}
+
+/**
+ * Uses the first of the providers that has credentials for the server.
+ */
+export function makeChainedCredentials(providers: ICredentialProvider[]): ICredentialProvider {
+  return {
+    getHeaders: async (server) => {
+      for (const provider of providers) {
+        const headers = await provider.getHeaders(server);
+        if (headers) { return headers; }
+      }
+      return null;
+    },
+    invalidate: (server) => providers.forEach((provider) => provider.invalidate?.(server)),
+  };
+}
+
+/**
+ * The provider used when neither apiKey nor credentials are configured: the GRIST_API_KEY env
+ * variable, then the profile matching the server, then ~/.grist-api-key.
+ */
+export function makeDefaultCredentials(): ICredentialProvider {
+  const chain = makeChainedCredentials([makeEnvCredentials(), makeProfileCredentials(), makeFileCredentials()]);
+  return {
+    getHeaders: async (server) => {
+      const headers = await chain.getHeaders(server);
+      if (!headers) {
+        throw new Error(`Grist API key not given, or found in GRIST_API_KEY env, in a profile for ${server} ` +
+          `in ${getDefaultConfigPath()}, or in ${getDefaultKeyPath()}`);
+      }
+      return headers;
+    },
+  };
+}
+
+/**
+ * Returns the name of the profile whose server matches the given server URL, preferring the
+ * longest match, or undefined if none matches.
+ */
+export function findServerProfile(profiles: {[name: string]: IServerProfile}, server: string): string | undefined {
+  let best: {name: string, length: number} | undefined;
+  for (const [name, profile] of Object.entries(profiles)) {
+    const pattern = escapeRegExp(profile.server.replace(/\/+$/, '')).replace(/\\\*/g, '[^/.]+');
+    if (new RegExp(`^${pattern}(/|$)`).test(server) && (!best || profile.server.length > best.length)) {
+      best = {name, length: profile.server.length};
+    }
+  }
+  return best?.name;
+}
+
+function makeBearerHeaders(apiKey: string): IAuthHeaders {
+  return {Authorization: `Bearer ${apiKey}`};
+}
+
+function getProcess(): NodeJS.Process {
+  if (typeof process === 'undefined') {
+    throw new Error('In browser environment, Grist API key must be provided');
+  }
+  return process;
+}
+
+function getDefaultKeyPath(): string {
+  return require('path').join(require('os').homedir(), ".grist-api-key");
+}
+
+function getDefaultConfigPath(): string {
+  return getProcess().env.GRIST_API_CONFIG || require('path').join(require('os').homedir(), ".grist-api.json");
+}
+
+async function readOptionalFile(filePath: string): Promise<string | null> {
+  getProcess();
+  const fse: typeof FsExtra = require('fs-extra');
+  return (await fse.pathExists(filePath)) ? await fse.readFile(filePath, {encoding: 'utf8'}) : null;
+}
@@ -0,0 +1,123 @@
+/**
+ * Types for a document's history (snapshots and states), and parsing of the comparisons Grist
+ * returns between two documents or two states of one document.
+ */
+import {CellValue, IRecord} from './grist-api';
+
+// A saved copy of a document, which replaceDoc can restore.
+export interface ISnapshot {
+  snapshotId: string;
+  // ISO timestamp of when the snapshot was made.
+  lastModified: string;
+  docId: string;
+  metadata?: {label?: string, tz?: string, [key: string]: any};
+}
+
+// A state of a document in its action history: the number of the last action, and its hash.
+export interface IDocState {
+  n: number;
+  h: string;
+}
+
+// How two documents or states relate: 'same' if equal, 'left' or 'right' if only that side has
+// changes since their common parent, 'both' if both do, 'unrelated' if there is no common parent.
+export type ComparisonSummary = 'same' | 'left' | 'right' | 'both' | 'unrelated';
+
+export interface IRowUpdate {
+  id: number;
+  // Values of changed columns before and after the change.
+  before: IRecord;
+  after: IRecord;
+}
+
+// Changes to one table.
+export interface ITableChanges {
+  // Pairs of [oldColId, newColId]; oldColId is null for added columns, newColId for removed ones.
+  columnRenames: Array<[string | null, string | null]>;
+  addedRows: IRecord[];
+  removedRows: IRecord[];
+  updatedRows: IRowUpdate[];
+}
+
+// Changes to a document, by table. Grist may include values for only some of the changed rows
+// of large changes; rows are still listed, with only their id.
+export interface IDocChanges {
+  // Pairs of [oldTableId, newTableId]; oldTableId is null for added tables, newTableId for removed.
+  tableRenames: Array<[string | null, string | null]>;
+  tables: {[tableId: string]: ITableChanges};
+}
+
+export interface IDocComparison {
+  left: IDocState;
+  right: IDocState;
+  // Latest state the two sides have in common, if any.
+  parent: IDocState | null;
+  summary: ComparisonSummary;
+  // Changes on each side since the parent; absent when Grist doesn't report details.
+  leftChanges?: IDocChanges;
+  rightChanges?: IDocChanges;
+}
+
+// A cell's value before or after a change, as Grist reports it: [value], or null if the row didn't
+// exist, or "?" if the value is unknown.
+type CellDeltaSide = [CellValue] | '?' | null;
+
+interface ITableDelta {
+  addRows: number[];
+  removeRows: number[];
+  updateRows: number[];
+  columnDeltas: {[colId: string]: {[rowId: number]: [CellDeltaSide, CellDeltaSide]}};
+  columnRenames: Array<[string | null, string | null]>;
+}
+
+interface IActionSummary {
+  tableRenames: Array<[string | null, string | null]>;
+  tableDeltas: {[tableId: string]: ITableDelta};
+}
+
+/**
+ * Parses the response of Grist's compare endpoints into an IDocComparison.
+ */
+export function parseComparison(resp: any): IDocComparison {
+  const {left, right, parent, summary, details} = resp;
+  return {
+    left, right, parent, summary,
+    ...(details ? {
+      leftChanges: parseActionSummary(details.leftChanges),
+      rightChanges: parseActionSummary(details.rightChanges),
+    } : {}),
+  };
+}
+
+function parseActionSummary(summary: IActionSummary): IDocChanges {
+  const tables: {[tableId: string]: ITableChanges} = {};
+  for (const [tableId, delta] of Object.entries(summary.tableDeltas)) {
+    tables[tableId] = {
+      columnRenames: delta.columnRenames,
+      addedRows: delta.addRows.map((id) => getRowValues(delta, id, 1)),
+      removedRows: delta.removeRows.map((id) => getRowValues(delta, id, 0)),
+      updatedRows: delta.updateRows.map((id) => ({
+        id,
+        before: omitId(getRowValues(delta, id, 0)),
+        after: omitId(getRowValues(delta, id, 1)),
+      })),
+    };
+  }
+  return {tableRenames: summary.tableRenames, tables};
+}
+
+/**
+ * Returns the known values of a row before (side 0) or after (side 1) the change.
+ */
+function getRowValues(delta: ITableDelta, rowId: number, side: 0 | 1): IRecord {
+  const rec: IRecord = {id: rowId};
+  for (const [colId, cells] of Object.entries(delta.columnDeltas)) {
+    const value = cells[rowId]?.[side];
+    if (Array.isArray(value)) { rec[colId] = value[0]; }
+  }
+  return rec;
+}
+
+function omitId({id, ...fields}: IRecord): IRecord {
+  return fields;
+}
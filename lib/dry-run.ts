@@ -0,0 +1,111 @@
+/**
+ * Plans of changes collected in dryrun mode, in place of the requests that would have been sent.
+ */
+import {Method} from 'axios';
+import {CellValue, ITableData} from './grist-api';
+
+// One change that would have been made, had dryrun mode been off.
+export interface IDryRunEntry {
+  // Absent for entries summarizing several requests, such as SyncTable.
+  method?: Method;
+  // Request URL, relative to the server, e.g. "docs/{docId}/tables/Table1/data".
+  endpoint: string;
+  docId?: string;
+  tableName?: string;
+  // Kind of change, e.g. "AddRecords", "BulkRemoveRecord", or "SyncTable".
+  action: string;
+  numRows?: number;
+  columns?: string[];
+  // For SyncTable, the values of key columns of records that would be added, updated or deleted.
+  keysToAdd?: CellValue[][];
+  keysToUpdate?: CellValue[][];
+  keysToDelete?: CellValue[][];
+}
+
+// Actions for requests to table endpoints, by endpoint and method.
+const tableActions: {[endpoint: string]: {[method: string]: string}} = {
+  data: {POST: 'AddRecords', PATCH: 'UpdateRecords'},
+  records: {POST: 'AddRecords', PATCH: 'UpdateRecords', PUT: 'AddOrUpdateRecords'},
+  columns: {POST: 'AddColumns', PATCH: 'ModifyColumns', PUT: 'ReplaceColumns', DELETE: 'RemoveColumn'},
+};
+
+/**
+ * Describes the request that would be sent to the given url, relative to the server. A request to
+ * the apply endpoint is described with one entry per user action.
+ */
+export function describeRequest(method: Method, endpoint: string, data?: any): IDryRunEntry[] {
+  const match = /^docs\/([^\/]+)(?:\/(.*))?$/.exec(endpoint);
+  const docId = match ? match[1] : undefined;
+  const docPath = match ? (match[2] || '') : undefined;
+  const base = {method, endpoint, docId};
+
+  if (docPath === 'apply' && Array.isArray(data)) {
+    return data.map((action: any[]) => ({
+      ...base,
+      action: String(action[0]),
+      tableName: typeof action[1] === 'string' ? action[1] : undefined,
+      ...describeActionRows(action),
+    }));
+  }
+
+  const tableMatch = docPath ? /^tables\/([^\/?]+)\/(data|records|columns)\b/.exec(docPath) : null;
+  if (tableMatch) {
+    const [, tableName, tableEndpoint] = tableMatch;
+    const action = tableActions[tableEndpoint][method.toUpperCase()] || `${method} ${tableEndpoint}`;
+    const rows = data?.records || data?.columns;
+    if (Array.isArray(rows)) {
+      return [{...base, tableName, action, numRows: rows.length}];
+    }
+    return [{...base, tableName, action, ...(data ? descColValues(data) : {})}];
+  }
+  return [{...base, action: `${method} ${docPath ?? endpoint}`}];
+}
+
+/**
+ * Returns a human-readable summary of a plan, with one line per entry.
+ */
+export function formatDryRunPlan(plan: IDryRunEntry[]): string {
+  return plan.map((entry) => {
+    const parts = [entry.action];
+    if (entry.tableName) { parts.push(entry.tableName); }
+    if (entry.keysToAdd || entry.keysToUpdate) {
+      parts.push(`would add ${formatKeys(entry.keysToAdd)}, update ${formatKeys(entry.keysToUpdate)}` +
+        (entry.keysToDelete ? `, delete ${formatKeys(entry.keysToDelete)}` : ''));
+    } else if (entry.numRows !== undefined) {
+      parts.push(`${entry.numRows} rows` + (entry.columns ? `, cols (${entry.columns.join(', ')})` : ''));
+    }
+    return `${entry.method || ''} ${entry.endpoint}: ${parts.join(' ')}`.trim();
+  }).join('\n');
+}
+
+function formatKeys(keys: CellValue[][] = []): string {
+  return `${keys.length}` + (keys.length ? ` ${keys.map((key) => JSON.stringify(key)).join(' ')}` : '');
+}
+
+/**
+ * Returns the number of rows and columns of the given ITableData object (dict mapping column name
+ * to list of values).
+ */
+function descColValues(data: ITableData): {numRows: number, columns: string[]} {
+  const keys = Object.keys(data);
+  const numRows = keys.length > 0 ? data[keys[0]].length : 0;
+  return {numRows, columns: keys.sort()};
+}
+
+// User actions that change records, whose third element is a row id, or a list of them.
+const recordActions = new Set(['AddRecord', 'UpdateRecord', 'RemoveRecord', 'BulkAddRecord', 'BulkUpdateRecord',
+                               'BulkRemoveRecord', 'ReplaceTableData']);
+
+/**
+ * Returns the number of rows and columns affected by a user action such as
+ * ['BulkAddRecord', tableId, rowIds, colValues]. Returns nothing for actions that don't change
+ * records, such as 'AddTable'.
+ */
+function describeActionRows(action: any[]): {numRows?: number, columns?: string[]} {
+  if (!recordActions.has(action[0])) { return {}; }
+  if (Array.isArray(action[2])) {
+    const columns = (action[3] && typeof action[3] === 'object') ? Object.keys(action[3]).sort() : undefined;
+    return {numRows: action[2].length, columns};
+  }
+  return typeof action[2] === 'number' ? {numRows: 1} : {};
+}
@@ -0,0 +1,143 @@
+/**
+ * Errors thrown for failed requests to Grist. The subclass depends on the HTTP status, and all of
+ * them carry the request's details, so callers can handle failures without matching messages.
+ */
+import axios, {AxiosError, Cancel, Method} from 'axios';
+import {isIdempotentMethod, isRetryableError, parseRetryAfter} from './retry';
+
+export interface IGristApiErrorInfo {
+  // HTTP status, absent if no response was received (e.g. a network error or timeout).
+  status?: number;
+  method: string;
+  url: string;
+  docId?: string;
+  tableName?: string;
+  // Further details Grist included with the error, if any.
+  details?: any;
+  cause?: Error;
+  // Whether the request may succeed if repeated, and is safe to repeat. Defaults to false.
+  retryable?: boolean;
+}
+
+// The request that failed, as given to makeGristApiError.
+export interface IGristRequestInfo {
+  method: Method;
+  // URL relative to the server, from which docId and tableName are parsed where it includes them.
+  url: string;
+  // Table the request is about, for URLs that don't include it (e.g. /apply).
+  tableName?: string;
+  // Whether the request may be repeated without changing the result. Defaults to whether the
+  // method is idempotent.
+  idempotent?: boolean;
+}
+
+export class GristApiError extends Error {
+  public readonly status?: number;
+  public readonly method: string;
+  public readonly url: string;
+  public readonly docId?: string;
+  public readonly tableName?: string;
+  public readonly details?: any;
+  public readonly cause?: Error;
+
+  // For operations sent in chunks (such as addRecords), the index of the chunk that failed, and
+  // the number of rows in chunks that succeeded, i.e. already committed.
+  public chunkIndex?: number;
+  public rowsCommitted?: number;
+
+  // For syncTable, which sends updates, additions and deletions one after the other, the numbers
+  // of rows committed by each; chunkIndex and rowsCommitted are those of the one that failed.
+  public syncCommitted?: {numAdded: number, numUpdated: number, numDeleted: number};
+
+  private readonly _retryable: boolean;
+
+  constructor(message: string, info: IGristApiErrorInfo) {
+    super(message);
+    this.name = new.target.name;
+    this.status = info.status;
+    this.method = info.method;
+    this.url = info.url;
+    this.docId = info.docId;
+    this.tableName = info.tableName;
+    this.details = info.details;
+    this.cause = info.cause;
+    this._retryable = Boolean(info.retryable);
+  }
+
+  // Whether the request may succeed if repeated, and is safe to repeat: e.g. when rate-limited, or
+  // after a network error for a request that either never reached the server or is idempotent.
+  public get retryable(): boolean {
+    return this._retryable;
+  }
+}
+
+// 404: the org, workspace, document, table or record doesn't exist.
+export class NotFoundError extends GristApiError {}
+
+// 401: the API key is missing or invalid.
+export class AuthError extends GristApiError {}
+
+// 403: the user lacks access to the resource.
+export class PermissionError extends GristApiError {}
+
+// 400 or 422: the request was invalid, e.g. naming a nonexistent column.
+export class ValidationError extends GristApiError {}
+
+// 429: too many requests.
+export class RateLimitError extends GristApiError {
+  // Delay requested by the server's Retry-After header, if any.
+  public get retryAfterMs(): number | undefined {
+    const retryAfter = (this.cause as AxiosError | undefined)?.response?.headers?.['retry-after'];
+    return parseRetryAfter(retryAfter) ?? undefined;
+  }
+}
+
+// 5xx: the server failed to handle the request.
+export class ServerError extends GristApiError {}
+
+// No response arrived within the call's timeout.
+export class TimeoutError extends GristApiError {}
+
+// The call was aborted by its signal. For operations sent in chunks, chunkIndex is that of the
+// first chunk not sent.
+export class AbortError extends GristApiError {
+  public get retryable(): boolean { return false; }
+}
+
+/**
+ * Converts an error from axios for the given request into a GristApiError of the class matching
+ * its status, with Grist's error message if it sent one. Cancelled requests become an AbortError,
+ * and timed out ones a TimeoutError.
+ */
+export function makeGristApiError(error: AxiosError | Cancel, request: IGristRequestInfo): GristApiError {
+  const {method, url, idempotent = isIdempotentMethod(method)} = request;
+  const {docId, tableName = request.tableName} = parseDocUrl(url);
+  if (axios.isCancel(error)) {
+    return new AbortError(error.message, {method, url, docId, tableName});
+  }
+  const err = error as AxiosError;
+  const status = err.response?.status;
+  const data = err.response?.data;
+  const hasGristError = data && typeof data === 'object' && 'error' in data;
+  const message = hasGristError ? `Grist API error: ${data.error}` : err.message;
+  const info: IGristApiErrorInfo = {
+    status, method, url, docId, tableName,
+    details: hasGristError ? data.details : undefined,
+    cause: err,
+    retryable: isRetryableError(err, idempotent),
+  };
+  const ErrorClass = (status === undefined && err.code === 'ECONNABORTED') ? TimeoutError :
+    (status === undefined) ? GristApiError :
+    (status === 400 || status === 422) ? ValidationError :
+    (status === 401) ? AuthError :
+    (status === 403) ? PermissionError :
+    (status === 404) ? NotFoundError :
+    (status === 429) ? RateLimitError :
+    (status >= 500) ? ServerError : GristApiError;
+  return new ErrorClass(message, info);
+}
+
+function parseDocUrl(url: string): Pick<IGristApiErrorInfo, 'docId' | 'tableName'> {
+  const match = /^docs\/([^\/?]+)(?:\/tables\/([^\/?]+))?/.exec(url);
+  return {docId: match?.[1], tableName: match?.[2] ? decodeURIComponent(match[2]) : undefined};
+}
@@ -0,0 +1,752 @@
+/**
+ * In-memory stand-in for a Grist server, for testing code that uses GristDocAPI without a network
+ * or a real Grist instance. It implements the endpoints GristDocAPI uses, following Grist's
+ * semantics for row ids, default cell values, filters and errors, but does not evaluate formulas
+ * (formula columns are always empty).
+ *
+ *    const server = new FakeGristServer();
+ *    const docId = server.addDoc(server.addWorkspace(server.addOrg({name: 'Acme'}), 'Home'), 'Test');
+ *    server.addTable(docId, 'Table1', [{id: 'Name', fields: {type: 'Text'}}], [{Name: 'Apple'}]);
+ *    const api = new GristDocAPI({server: await server.listen(), apiKey: 'any'});
+ *    api.setDocId(docId);
+ *    ...
+ *    await server.close();
+ */
+import cloneDeep = require('lodash/cloneDeep');
+import isEqual = require('lodash/isEqual');
+import {CellValue, IColumnFields, IColumnSpec, IFilterSpec, IRecord, ITableData} from './grist-api';
+
+import type * as Http from 'http';
+
+// A request received by the fake server, recorded in FakeGristServer.requests.
+export interface IFakeRequest {
+  method: string;
+  // Path relative to the API root, with query string, e.g. "/docs/abc/tables/Table1/data".
+  path: string;
+  body: any;
+}
+
+export interface FakeGristServerOptions {
+  // If set, requests must carry this key as "Authorization: Bearer <apiKey>".
+  apiKey?: string;
+}
+
+interface IFakeAttachment {
+  id: number;
+  fileName: string;
+  fileSize: number;
+  timeUploaded: string;
+  contentType: string;
+  data: Buffer;
+}
+
+interface IUploadedFile {
+  filename: string;
+  contentType: string;
+  data: Buffer;
+}
+
+interface IFakeTable {
+  columns: Map<string, IColumnFields>;
+  rows: Map<number, IRecord>;
+}
+
+interface IFakeDoc {
+  id: string;
+  name: string;
+  workspaceId: number;
+  tables: Map<string, IFakeTable>;
+  attachments: IFakeAttachment[];
+  access: Map<string, string | null>;
+  actionNum: number;
+}
+
+interface IFakeWorkspace {
+  id: number;
+  name: string;
+  orgId: number;
+  access: Map<string, string | null>;
+}
+
+interface IFakeOrg {
+  id: number;
+  name: string;
+  domain: string;
+  access: Map<string, string | null>;
+}
+
+/**
+ * Error responded with as {"error": message}, as Grist does.
+ */
+class HttpError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+// Default values of cells in columns of each type, used when a record doesn't set them.
+const defaultValues: {[type: string]: CellValue} = {
+  Text: '', Numeric: 0, Int: 0, Bool: false, Ref: 0, ManualSortPos: 0, PositionNumber: 0,
+};
+
+export class FakeGristServer {
+  // All requests received, in order, e.g. to check how many requests an operation made.
+  public readonly requests: IFakeRequest[] = [];
+
+  private _apiKey: string | null;
+  private _orgs = new Map<number, IFakeOrg>();
+  private _workspaces = new Map<number, IFakeWorkspace>();
+  private _docs = new Map<string, IFakeDoc>();
+  private _userIds = new Map<string, number>();
+  private _nextId = 1;
+  private _server: Http.Server | null = null;
+
+  constructor(options: FakeGristServerOptions = {}) {
+    this._apiKey = options.apiKey ?? null;
+  }
+
+  public addOrg(options: {name: string, domain?: string}): number {
+    const id = this._nextId++;
+    this._orgs.set(id, {id, name: options.name, domain: options.domain || `org${id}`, access: new Map()});
+    return id;
+  }
+
+  public addWorkspace(orgId: number, name: string): number {
+    this._getOrg(orgId);
+    const id = this._nextId++;
+    this._workspaces.set(id, {id, name, orgId, access: new Map()});
+    return id;
+  }
+
+  public addDoc(workspaceId: number, name: string): string {
+    this._getWorkspace(workspaceId);
+    const id = `fakeDoc${String(this._nextId++).padStart(14, '0')}`;
+    this._docs.set(id, {id, name, workspaceId, tables: new Map(), attachments: [], access: new Map(), actionNum: 0});
+    return id;
+  }
+
+  /**
+   * Adds a table to a document, optionally with some records.
+   */
+  public addTable(docId: string, tableId: string, columns: IColumnSpec[], records: IRecord[] = []): void {
+    const doc = this._getDoc(docId);
+    addTable(doc, tableId, columns);
+    addRecords(getTable(doc, tableId), records);
+  }
+
+  /**
+   * Returns the records of a table, ordered by row id, with all columns.
+   */
+  public getRecords(docId: string, tableId: string): IRecord[] {
+    return fetchRecords(getTable(this._getDoc(docId), tableId));
+  }
+
+  /**
+   * Starts listening on the given port (by default, any free port), and returns the server URL to
+   * pass to GristDocAPI as the `server` option.
+   */
+  public async listen(port: number = 0): Promise<string> {
+    const http: typeof Http = require('http');
+    const server = http.createServer(this.handleRequest);
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, '127.0.0.1', () => resolve());
+    });
+    this._server = server;
+    const address = server.address() as {port: number};
+    return `http://127.0.0.1:${address.port}`;
+  }
+
+  public async close(): Promise<void> {
+    const server = this._server;
+    if (!server) { return; }
+    this._server = null;
+    await new Promise<void>((resolve, reject) => server.close((err) => err ? reject(err) : resolve()));
+  }
+
+  /**
+   * Handles an HTTP request, e.g. when passed to http.createServer().
+   */
+  public handleRequest = (req: Http.IncomingMessage, res: Http.ServerResponse): void => {
+    readBody(req).then((body) => this._handleRequest(req, body)).then((result) => {
+      if (Buffer.isBuffer(result)) {
+        res.writeHead(200, {'Content-Type': 'application/octet-stream'});
+        res.end(result);
+      } else {
+        res.writeHead(200, {'Content-Type': 'application/json'});
+        res.end(JSON.stringify(result === undefined ? null : result));
+      }
+    }).catch((err) => {
+      res.writeHead(err instanceof HttpError ? err.status : 500, {'Content-Type': 'application/json'});
+      res.end(JSON.stringify({error: err.message}));
+    });
+  }
+
+  private async _handleRequest(req: Http.IncomingMessage, rawBody: Buffer): Promise<any> {
+    // Accept URLs with or without an "/o/{org}" or "/api" prefix.
+    const url = new URL(req.url || '/', 'http://localhost');
+    const path = url.pathname.replace(/^(\/o\/[^\/]+)?(\/api)?/, '').replace(/\/+$/, '');
+    const method = req.method || 'GET';
+    const contentType = req.headers['content-type'] || '';
+    const body = contentType.startsWith('multipart/form-data') ? parseMultipart(rawBody, contentType) :
+      (rawBody.length ? JSON.parse(rawBody.toString('utf8')) : undefined);
+    this.requests.push({method, path: path + url.search, body});
+
+    if (this._apiKey !== null && req.headers.authorization !== `Bearer ${this._apiKey}`) {
+      throw new HttpError(401, 'invalid API key');
+    }
+    const parts = path.split('/').slice(1).map(decodeURIComponent);
+    const route = `${method} ${parts.map((p, i) => i % 2 ? ':id' : p).join('/')}`;
+    const query = url.searchParams;
+
+    switch (parts[0]) {
+      case 'orgs': return this._handleOrgs(route, parts, body);
+      case 'workspaces': return this._handleWorkspaces(route, parts, body);
+      case 'docs': return this._handleDocs(method, parts, body, query);
+    }
+    throw new HttpError(404, `Not found: ${method} ${path}`);
+  }
+
+  private _handleOrgs(route: string, parts: string[], body: any): any {
+    if (route === 'GET orgs') {
+      return Array.from(this._orgs.values(), (o) => this._describeOrg(o));
+    }
+    const org = this._getOrg(Number(parts[1]));
+    switch (route) {
+      case 'GET orgs/:id': return this._describeOrg(org);
+      case 'PATCH orgs/:id': { Object.assign(org, pickName(body)); return; }
+      case 'DELETE orgs/:id': { this._orgs.delete(org.id); return; }
+      case 'GET orgs/:id/access': return {users: this._describeUsers(org.access)};
+      case 'PATCH orgs/:id/access': { applyAccessDelta(org.access, body.delta); return; }
+      case 'GET orgs/:id/workspaces':
+        return Array.from(this._workspaces.values())
+          .filter((ws) => ws.orgId === org.id)
+          .map((ws) => ({...this._describeWorkspace(ws), docs: this._describeDocs(ws)}));
+      case 'POST orgs/:id/workspaces': return this.addWorkspace(org.id, body.name);
+    }
+    throw new HttpError(404, `Not found: ${route}`);
+  }
+
+  private _handleWorkspaces(route: string, parts: string[], body: any): any {
+    const ws = this._getWorkspace(Number(parts[1]));
+    switch (route) {
+      case 'GET workspaces/:id':
+        return {...this._describeWorkspace(ws), org: this._describeOrg(this._getOrg(ws.orgId)),
+                docs: this._describeDocs(ws)};
+      case 'PATCH workspaces/:id': { Object.assign(ws, pickName(body)); return; }
+      case 'DELETE workspaces/:id': { this._workspaces.delete(ws.id); return; }
+      case 'GET workspaces/:id/access': return {maxInheritedRole: 'owners', users: this._describeUsers(ws.access)};
+      case 'PATCH workspaces/:id/access': { applyAccessDelta(ws.access, body.delta); return; }
+      case 'POST workspaces/:id/docs': return this.addDoc(ws.id, body.name);
+    }
+    throw new HttpError(404, `Not found: ${route}`);
+  }
+
+  private _handleDocs(method: string, parts: string[], body: any, query: URLSearchParams): any {
+    const doc = this._getDoc(parts[1]);
+    const [, , endpoint, tableId, tableEndpoint, colId] = parts;
+    const route = `${method} ${[endpoint, tableId && ':tableId', tableEndpoint, colId && ':colId']
+      .filter(Boolean).join('/')}`;
+    switch (route) {
+      case 'GET ':
+        return {id: doc.id, name: doc.name,
+                workspace: this._describeWorkspace(this._getWorkspace(doc.workspaceId))};
+      case 'PATCH ': { Object.assign(doc, pickName(body)); return; }
+      case 'DELETE ': { this._docs.delete(doc.id); return; }
+      case 'PATCH move': {
+        doc.workspaceId = this._getWorkspace(Number(body.workspace)).id;
+        return;
+      }
+      case 'POST copy': {
+        const copyId = this.addDoc(Number(body.workspaceId), body.documentName);
+        this._copyContent(doc, this._getDoc(copyId), Boolean(body.asTemplate));
+        return copyId;
+      }
+      case 'POST fork': {
+        const forkId = `fork${this._nextId++}`;
+        const fork = {...doc, id: `${doc.id}~${forkId}`, access: new Map(doc.access)};
+        this._docs.set(fork.id, fork);
+        this._copyContent(doc, fork, false);
+        return {forkId, docId: fork.id, urlId: fork.id};
+      }
+      case 'POST replace': {
+        if (body.snapshotId) { throw new HttpError(400, 'Snapshots are not supported by fake server'); }
+        this._copyContent(this._getDoc(body.sourceDocId), doc, false);
+        doc.actionNum++;
+        return;
+      }
+      case 'GET access': return {maxInheritedRole: 'owners', users: this._describeUsers(doc.access)};
+      case 'PATCH access': { applyAccessDelta(doc.access, body.delta); return; }
+      case 'GET tables':
+        return {tables: Array.from(doc.tables.keys(), (id) => ({id, fields: {}}))};
+      case 'POST tables': {
+        const tables: Array<{id: string, columns: IColumnSpec[]}> = body.tables || body.schema?.tables || [];
+        return {tables: tables.map((t) => ({id: addTable(doc, t.id, t.columns || [])}))};
+      }
+      case 'POST apply': return this._applyActions(doc, body);
+      case 'POST sql':
+        return {statement: body.sql, records: runSql(doc, body.sql, body.args || []).map((fields) => ({fields}))};
+      case 'POST attach': return addAttachments(doc, body);
+      case 'GET attachments':
+        return {records: doc.attachments.map(({id, data, contentType, ...fields}) => ({id, fields}))};
+      case 'GET attachments/:tableId/download': {
+        const attachment = doc.attachments.find((a) => a.id === Number(tableId));
+        if (!attachment) { throw new HttpError(404, `Attachment not found: ${tableId}`); }
+        return attachment.data;
+      }
+      case 'GET download':
+        // Not a real .grist file (which is an SQLite database), but a dump of the doc's tables.
+        return Buffer.from(JSON.stringify({name: doc.name, tables: Array.from(doc.tables, ([id, t]) =>
+          ({id, columns: Array.from(t.columns.keys()), records: fetchRecords(t)}))}));
+      case 'GET download/:tableId': return exportTable(doc, tableId, query);
+    }
+
+    const table = getTable(doc, tableId);
+    switch (route) {
+      case 'GET tables/:tableId/columns':
+        return {columns: Array.from(table.columns, ([id, fields]) => ({id, fields}))};
+      case 'POST tables/:tableId/columns':
+        return {columns: body.columns.map((col: IColumnSpec) => ({id: addColumn(table, col.id, col.fields)}))};
+      case 'PATCH tables/:tableId/columns': {
+        for (const col of body.columns) { modifyColumn(table, col.id, col.fields); }
+        return;
+      }
+      case 'PUT tables/:tableId/columns': {
+        for (const col of body.columns) {
+          if (table.columns.has(col.id)) {
+            if (!query.get('noupdate')) { modifyColumn(table, col.id, col.fields); }
+          } else if (!query.get('noadd')) {
+            addColumn(table, col.id, col.fields);
+          }
+        }
+        if (query.get('replaceall')) {
+          const keep = new Set(body.columns.map((col: IColumnSpec) => col.id));
+          for (const id of Array.from(table.columns.keys())) {
+            if (!keep.has(id)) { removeColumn(table, id); }
+          }
+        }
+        return;
+      }
+      case 'DELETE tables/:tableId/columns/:colId': { removeColumn(table, colId); return; }
+      case 'GET tables/:tableId/data': {
+        const records = filterRecords(table, fetchRecords(table), query.get('filter'));
+        return makeColumnData(table, records);
+      }
+      case 'POST tables/:tableId/data': return addRecords(table, makeRecords(body));
+      case 'PATCH tables/:tableId/data': { updateRecords(table, makeRecords(body)); return; }
+      case 'GET tables/:tableId/records': {
+        let records = filterRecords(table, fetchRecords(table), query.get('filter'));
+        records = sortRecords(records, query.get('sort'));
+        const limit = Number(query.get('limit'));
+        if (limit) { records = records.slice(0, limit); }
+        return {records: records.map(({id, ...fields}) => ({id, fields}))};
+      }
+      case 'POST tables/:tableId/records':
+        return {records: addRecords(table, body.records.map((r: any) => r.fields || {})).map((id) => ({id}))};
+      case 'PATCH tables/:tableId/records': {
+        updateRecords(table, body.records.map((r: any) => ({...r.fields, id: r.id})));
+        return;
+      }
+      case 'PUT tables/:tableId/records': {
+        upsertRecords(table, body.records, query.get('onmany') || 'first',
+                      Boolean(query.get('noadd')), Boolean(query.get('noupdate')));
+        return;
+      }
+    }
+    throw new HttpError(404, `Not found: ${route}`);
+  }
+
+  /**
+   * Applies user actions to a copy of the document's tables, so that if any fails, none of them
+   * take effect.
+   */
+  private _applyActions(doc: IFakeDoc, actions: any[]): any {
+    const tables = cloneDeep(doc.tables);
+    const retValues = actions.map((action) => applyAction({...doc, tables}, action));
+    doc.tables = tables;
+    doc.actionNum++;
+    return {actionNum: doc.actionNum, actionHash: `fake${doc.actionNum}`, retValues, isModification: true};
+  }
+
+  /**
+   * Replaces the tables and attachments of one document with copies of another's. With asTemplate,
+   * tables are copied without their records.
+   */
+  private _copyContent(source: IFakeDoc, dest: IFakeDoc, asTemplate: boolean) {
+    dest.tables = cloneDeep(source.tables);
+    dest.attachments = asTemplate ? [] : cloneDeep(source.attachments);
+    if (asTemplate) {
+      for (const table of dest.tables.values()) { table.rows.clear(); }
+    }
+  }
+
+  private _getOrg(orgId: number): IFakeOrg {
+    const org = this._orgs.get(orgId);
+    if (!org) { throw new HttpError(404, `Organization not found: ${orgId}`); }
+    return org;
+  }
+
+  private _getWorkspace(workspaceId: number): IFakeWorkspace {
+    const ws = this._workspaces.get(workspaceId);
+    if (!ws) { throw new HttpError(404, `Workspace not found: ${workspaceId}`); }
+    return ws;
+  }
+
+  private _getDoc(docId: string): IFakeDoc {
+    const doc = this._docs.get(docId);
+    if (!doc) { throw new HttpError(404, `document not found: ${docId}`); }
+    return doc;
+  }
+
+  private _describeOrg(org: IFakeOrg) {
+    return {id: org.id, name: org.name, domain: org.domain, access: 'owners'};
+  }
+
+  private _describeWorkspace(ws: IFakeWorkspace) {
+    return {id: ws.id, name: ws.name, access: 'owners'};
+  }
+
+  private _describeDocs(ws: IFakeWorkspace) {
+    return Array.from(this._docs.values())
+      .filter((doc) => doc.workspaceId === ws.id && !doc.id.includes('~'))
+      .map((doc) => ({id: doc.id, name: doc.name, access: 'owners'}));
+  }
+
+  private _describeUsers(access: Map<string, string | null>) {
+    return Array.from(access, ([email, role]) => {
+      const id = this._userIds.get(email) || this._userIds.set(email, this._userIds.size + 1).get(email)!;
+      return {id, name: email.split('@')[0], email, access: role};
+    });
+  }
+}
+
+function pickName(body: any): {name?: string} {
+  return body && body.name !== undefined ? {name: body.name} : {};
+}
+
+function applyAccessDelta(access: Map<string, string | null>, delta: {users?: {[email: string]: string | null}}) {
+  for (const [email, role] of Object.entries(delta?.users || {})) {
+    if (role === null) { access.delete(email); } else { access.set(email, role); }
+  }
+}
+
+function readBody(req: Http.IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Parses a multipart/form-data body into its file parts.
+ */
+function parseMultipart(body: Buffer, contentType: string): IUploadedFile[] {
+  const boundary = /boundary=(?:"([^"]+)"|([^;]+))/.exec(contentType);
+  if (!boundary) { throw new HttpError(400, 'Missing multipart boundary'); }
+  const delimiter = Buffer.from(`--${boundary[1] || boundary[2]}`);
+  const files = [];
+  let start = body.indexOf(delimiter);
+  while (start >= 0) {
+    const end = body.indexOf(delimiter, start + delimiter.length);
+    if (end < 0) { break; }
+    const part = body.slice(start + delimiter.length + 2, end - 2);
+    const headerEnd = part.indexOf('\r\n\r\n');
+    const headers = part.slice(0, headerEnd).toString('utf8');
+    const filename = /filename="([^"]*)"/.exec(headers);
+    if (filename) {
+      const type = /content-type:\s*([^\r\n]+)/i.exec(headers);
+      files.push({filename: filename[1], contentType: type ? type[1] : 'application/octet-stream',
+                  data: part.slice(headerEnd + 4)});
+    }
+    start = end;
+  }
+  return files;
+}
+
+function addAttachments(doc: IFakeDoc, files: IUploadedFile[]) {
+  if (!Array.isArray(files)) { throw new HttpError(400, 'Expected multipart/form-data with files'); }
+  return files.map((file) => {
+    const id = doc.attachments.reduce((max, a) => Math.max(max, a.id), 0) + 1;
+    doc.attachments.push({id, fileName: file.filename, fileSize: file.data.length,
+                          timeUploaded: new Date().toISOString(), contentType: file.contentType, data: file.data});
+    return id;
+  });
+}
+
+function getTable(doc: IFakeDoc, tableId: string): IFakeTable {
+  const table = doc.tables.get(tableId);
+  if (!table) { throw new HttpError(404, `Table not found "${tableId}"`); }
+  return table;
+}
+
+function addTable(doc: IFakeDoc, tableId: string, columns: IColumnSpec[]): string {
+  if (doc.tables.has(tableId)) { throw new HttpError(400, `Table already exists "${tableId}"`); }
+  const table: IFakeTable = {columns: new Map(), rows: new Map()};
+  doc.tables.set(tableId, table);
+  for (const col of columns) { addColumn(table, col.id, col.fields); }
+  return tableId;
+}
+
+/**
+ * Adds a column, adjusting its id if needed to make it unique, as Grist does. Returns the id used.
+ */
+function addColumn(table: IFakeTable, colId: string, fields: IColumnFields = {}): string {
+  let id = colId;
+  for (let n = 2; table.columns.has(id) || id === 'id'; n++) { id = `${colId}${n}`; }
+  table.columns.set(id, {type: 'Any', label: id, formula: '', isFormula: false, widgetOptions: '',
+                         ...normalizeFields(fields)});
+  for (const row of table.rows.values()) { row[id] = getDefault(table, id); }
+  return id;
+}
+
+function modifyColumn(table: IFakeTable, colId: string, fields: IColumnFields = {}) {
+  const col = table.columns.get(colId);
+  if (!col) { throw new HttpError(404, `Column not found "${colId}"`); }
+  Object.assign(col, normalizeFields(fields));
+}
+
+function removeColumn(table: IFakeTable, colId: string) {
+  if (!table.columns.delete(colId)) { throw new HttpError(404, `Column not found "${colId}"`); }
+  for (const row of table.rows.values()) { delete row[colId]; }
+}
+
+function normalizeFields(fields: IColumnFields): IColumnFields {
+  const {widgetOptions} = fields;
+  return (widgetOptions && typeof widgetOptions === 'object') ?
+    {...fields, widgetOptions: JSON.stringify(widgetOptions)} : fields;
+}
+
+function getDefault(table: IFakeTable, colId: string): CellValue {
+  const col = table.columns.get(colId)!;
+  if (col.isFormula) { return null; }
+  return defaultValues[String(col.type).split(':')[0]] ?? null;
+}
+
+// As in Grist, an empty reference is stored as 0, even when set to null.
+function convertValue(table: IFakeTable, colId: string, value: CellValue): CellValue {
+  return (value === null && String(table.columns.get(colId)!.type).startsWith('Ref:')) ? 0 : value;
+}
+
+function checkColumns(table: IFakeTable, record: IRecord) {
+  for (const colId of Object.keys(record)) {
+    if (colId !== 'id' && !table.columns.has(colId)) {
+      throw new HttpError(400, `Invalid column "${colId}"`);
+    }
+  }
+}
+
+/**
+ * Adds records, assigning each the next row id after the highest one in use (unless the record
+ * specifies its id), as Grist does. Returns the row ids.
+ */
+function addRecords(table: IFakeTable, records: IRecord[]): number[] {
+  records.forEach((rec) => checkColumns(table, rec));
+  return records.map((rec) => {
+    const id = (typeof rec.id === 'number' && rec.id > 0) ? rec.id :
+      Array.from(table.rows.keys()).reduce((max, rowId) => Math.max(max, rowId), 0) + 1;
+    if (table.rows.has(id)) { throw new HttpError(400, `Row id ${id} already exists`); }
+    const row: IRecord = {id};
+    for (const colId of table.columns.keys()) {
+      row[colId] = (colId in rec && !table.columns.get(colId)!.isFormula) ?
+        convertValue(table, colId, rec[colId]) : getDefault(table, colId);
+    }
+    table.rows.set(id, row);
+    return id;
+  });
+}
+
+function updateRecords(table: IFakeTable, records: IRecord[]) {
+  for (const rec of records) {
+    checkColumns(table, rec);
+    if (!table.rows.has(rec.id as number)) { throw new HttpError(400, `Invalid row id ${rec.id}`); }
+  }
+  for (const {id, ...fields} of records) {
+    const row = table.rows.get(id as number)!;
+    for (const colId of Object.keys(fields)) { row[colId] = convertValue(table, colId, fields[colId]); }
+  }
+}
+
+function removeRecords(table: IFakeTable, rowIds: number[]) {
+  for (const id of rowIds) {
+    if (!table.rows.delete(id)) { throw new HttpError(400, `Invalid row id ${id}`); }
+  }
+}
+
+function upsertRecords(table: IFakeTable, records: Array<{require: IRecord, fields?: IRecord}>,
+                       onMany: string, noadd: boolean, noupdate: boolean) {
+  for (const {require, fields = {}} of records) {
+    checkColumns(table, {...require, ...fields});
+    const matches = fetchRecords(table).filter((row) =>
+      Object.keys(require).every((colId) => isEqual(row[colId], require[colId])));
+    if (matches.length === 0) {
+      if (!noadd) { addRecords(table, [{...require, ...fields}]); }
+    } else if (!noupdate && (onMany !== 'none' || matches.length === 1)) {
+      const toUpdate = onMany === 'all' ? matches : matches.slice(0, 1);
+      updateRecords(table, toUpdate.map((row) => ({...fields, id: row.id})));
+    }
+  }
+}
+
+function fetchRecords(table: IFakeTable): IRecord[] {
+  return Array.from(table.rows.values()).sort((a, b) => (a.id as number) - (b.id as number))
+    .map((row) => ({...row}));
+}
+
+function filterRecords(table: IFakeTable, records: IRecord[], filterParam: string | null): IRecord[] {
+  if (!filterParam) { return records; }
+  const filters: IFilterSpec = JSON.parse(filterParam);
+  for (const colId of Object.keys(filters)) {
+    if (colId !== 'id' && !table.columns.has(colId)) { throw new HttpError(400, `Bad filter: ${colId}`); }
+  }
+  return records.filter((rec) => Object.keys(filters).every((colId) =>
+    filters[colId].some((value) => isEqual(value, rec[colId]))));
+}
+
+/**
+ * Sorts records by a Grist sort parameter such as "-Date,Name". Sort flags are ignored.
+ */
+function sortRecords(records: IRecord[], sortParam: string | null): IRecord[] {
+  if (!sortParam) { return records; }
+  const specs = sortParam.split(',').map((spec) => {
+    const colId = spec.split(':')[0];
+    return colId.startsWith('-') ? {colId: colId.slice(1), dir: -1} : {colId, dir: 1};
+  });
+  return records.slice().sort((a, b) => {
+    for (const {colId, dir} of specs) {
+      const [x, y] = [a[colId], b[colId]];
+      if (isEqual(x, y)) { continue; }
+      if (x === null) { return -dir; }
+      if (y === null) { return dir; }
+      return (x < y ? -1 : 1) * dir;
+    }
+    return 0;
+  });
+}
+
+function makeRecords(data: ITableData): IRecord[] {
+  const colIds = Object.keys(data);
+  const numRows = colIds.length ? data[colIds[0]].length : 0;
+  return Array.from({length: numRows}, (_, i) => {
+    const rec: IRecord = {};
+    for (const colId of colIds) { rec[colId] = data[colId][i]; }
+    return rec;
+  });
+}
+
+function makeColumnData(table: IFakeTable, records: IRecord[]): ITableData {
+  const data: ITableData = {id: records.map((rec) => rec.id)};
+  for (const colId of table.columns.keys()) {
+    data[colId] = records.map((rec) => rec[colId]);
+  }
+  return data;
+}
+
+// Types of columns in table-schema exports, by Grist column type; other types are exported as strings.
+const exportTypes: {[gristType: string]: string} = {
+  Numeric: 'number', Int: 'integer', Bool: 'boolean', Date: 'date', DateTime: 'datetime',
+};
+
+/**
+ * Exports the table given by the tableId query parameter in the given format, "csv" or
+ * "table-schema". Values are formatted simply: dates as YYYY-MM-DD, and lists as comma-separated
+ * items.
+ */
+function exportTable(doc: IFakeDoc, format: string, query: URLSearchParams): Buffer | object {
+  if (format === 'xlsx') { throw new HttpError(400, 'XLSX export is not supported by fake server'); }
+  const tableId = query.get('tableId');
+  if (!tableId) { throw new HttpError(400, 'tableId parameter is required'); }
+  const table = getTable(doc, tableId);
+  const columns = Array.from(table.columns);
+  const headers = columns.map(([colId, col]) => query.get('header') === 'colId' ? colId : (col.label || colId));
+  switch (format) {
+    case 'csv': {
+      const rows = [headers, ...fetchRecords(table).map((rec) =>
+        columns.map(([colId, col]) => formatExportValue(rec[colId], col.type)))];
+      return Buffer.from(rows.map((row) => row.map(quoteCsv).join(',')).join('\r\n') + '\r\n');
+    }
+    case 'table-schema':
+      return {
+        name: tableId.toLowerCase(), title: tableId,
+        path: `docs/${doc.id}/download/csv?${query.toString()}`,
+        format: 'csv', mediatype: 'text/csv', encoding: 'utf-8',
+        schema: {
+          fields: columns.map(([, col], i) => ({name: headers[i], type: exportTypes[col.type || ''] || 'string'})),
+        },
+      };
+  }
+  throw new HttpError(404, `Not found: download/${format}`);
+}
+
+function formatExportValue(value: CellValue, type: string | undefined): string {
+  if (value === null) { return ''; }
+  if (Array.isArray(value)) { return value[0] === 'L' ? value.slice(1).join(',') : JSON.stringify(value); }
+  if (type === 'Date' && typeof value === 'number') { return new Date(value * 1000).toISOString().slice(0, 10); }
+  return String(value);
+}
+
+function quoteCsv(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function applyAction(doc: IFakeDoc, action: any[]): any {
+  const [name, tableId, ...args] = action;
+  switch (name) {
+    case 'AddTable': return {table_id: addTable(doc, tableId, (args[0] || []).map(
+      ({id, ...fields}: any) => ({id, fields})))};
+    case 'RenameTable': {
+      const renamed = getTable(doc, tableId);
+      if (doc.tables.has(args[0])) { throw new HttpError(400, `Table already exists "${args[0]}"`); }
+      doc.tables.delete(tableId);
+      doc.tables.set(args[0], renamed);
+      return args[0];
+    }
+    case 'RemoveTable': { getTable(doc, tableId); doc.tables.delete(tableId); return null; }
+  }
+  const table = getTable(doc, tableId);
+  switch (name) {
+    case 'AddRecord': return addRecords(table, [{...args[1], ...(args[0] ? {id: args[0]} : {})}])[0];
+    case 'BulkAddRecord': {
+      const records = makeRecords(args[1]);
+      args[0].forEach((id: number | null, i: number) => { if (id) { records[i].id = id; } });
+      return addRecords(table, records);
+    }
+    case 'UpdateRecord': { updateRecords(table, [{...args[1], id: args[0]}]); return null; }
+    case 'BulkUpdateRecord': {
+      updateRecords(table, makeRecords({...args[1], id: args[0]}));
+      return null;
+    }
+    case 'RemoveRecord': { removeRecords(table, [args[0]]); return null; }
+    case 'BulkRemoveRecord': { removeRecords(table, args[0]); return null; }
+    case 'AddColumn': return {colRef: 0, colId: addColumn(table, args[0], args[1])};
+    case 'ModifyColumn': { modifyColumn(table, args[0], args[1]); return null; }
+    case 'RemoveColumn': { removeColumn(table, args[0]); return null; }
+  }
+  throw new HttpError(400, `Unsupported action in fake server: ${name}`);
+}
+
+/**
+ * Runs a SQL query from a small supported subset: SELECT of columns (or *) FROM a table,
+ * optionally with "WHERE id > ?", "ORDER BY id" and "LIMIT ?".
+ */
+function runSql(doc: IFakeDoc, sql: string, args: CellValue[]): IRecord[] {
+  const match = /^\s*SELECT\s+(.+?)\s+FROM\s+"?(\w+)"?(\s+WHERE\s+id\s*>\s*\?)?(\s+ORDER\s+BY\s+id)?(\s+LIMIT\s+\?)?\s*;?\s*$/i
+    .exec(sql);
+  if (!match) { throw new HttpError(400, `SQL not supported by fake server: ${sql}`); }
+  const [, columns, tableId, whereId, , limit] = match;
+  let records = fetchRecords(getTable(doc, tableId));
+  let argIndex = 0;
+  if (whereId) {
+    const minId = args[argIndex++] as number;
+    records = records.filter((rec) => (rec.id as number) > minId);
+  }
+  if (limit) { records = records.slice(0, args[argIndex++] as number); }
+  if (columns.trim() === '*') { return records; }
+  const colIds = columns.split(',').map((c) => c.trim().replace(/^"|"$/g, ''));
+  return records.map((rec) => {
+    const result: IRecord = {};
+    for (const colId of colIds) { result[colId] = rec[colId]; }
+    return result;
+  });
+}
@@ -3,12 +3,28 @@
  */
 import axios, { Method, AxiosError, AxiosRequestConfig, ResponseType } from 'axios';
 import chunk = require('lodash/chunk');
+import cloneDeep = require('lodash/cloneDeep');
+import flatten = require('lodash/flatten');
 import isEqual = require('lodash/isEqual');
 import mapValues = require('lodash/mapValues');
+import omit = require('lodash/omit');
 import pick = require('lodash/pick');
+import {AccessRuleUpdate, IAccessRule, IAccessRulesData, IAccessRuleSpec, IEnsureAccessRulesResult,
+        parseAccessRules, planAccessRuleChanges, planEnsureAccessRules} from './access-rules';
+import {decodeRecord, encodeRecord, ITypedRecord} from './cell-values';
+import {IAuthHeaders, ICredentialProvider, makeDefaultCredentials, makeStaticCredentials} from './credentials';
+import {IDocComparison, IDocState, ISnapshot, parseComparison} from './doc-history';
+import {describeRequest, IDryRunEntry} from './dry-run';
+import {AbortError, GristApiError, IGristApiErrorInfo, makeGristApiError} from './errors';
+import {GristTable} from './grist-table';
+import {ILogger, makeDebugLogger} from './logger';
+import {delay, getRetryDelay, IRetryPolicy, isIdempotentMethod} from './retry';
+import {TtlCache} from './ttl-cache';
+import {IApplyResult, UserAction, UserActionBatch} from './user-actions';
 
 // Require type only, since the actual require may not be needed or available,
 // depending on how and where grist-api is used.
+import type * as NodeFormData from 'form-data';
 import type * as FsExtra from 'fs-extra';
 
 // Import debug with any type to avoid type issues
@@ -20,10 +36,20 @@ export type CellValue = number|string|boolean|null|[string, ...any[]];
 // Record representing a row in a Grist table.
 export interface IRecord { [colId: string]: CellValue; }
 
+// Column properties, as accepted and returned by the tables/{tableId}/columns endpoints.
+export interface IColumnFields {
+  type?: string;
+  label?: string;
+  formula?: string;
+  isFormula?: boolean;
+  // Returned by Grist as a JSON string; may be given as an object when writing.
+  widgetOptions?: string | object;
+  [key: string]: any;
+}
+
 // GristTableSchema interfaces to match the provided JSON structure
-export interface IColumnField {
+export interface IColumnField extends IColumnFields {
   label: string;
-  [key: string]: any;
 }
 
 export interface IColumn {
@@ -31,6 +57,12 @@ export interface IColumn {
   fields: IColumnField;
 }
 
+// Column id with the fields to set, used when adding or modifying columns.
+export interface IColumnSpec {
+  id: string;
+  fields?: IColumnFields;
+}
+
 export interface ITable {
   id: string;
   columns: IColumn[];
@@ -46,6 +78,59 @@ export interface ITableData { [colId: string]: CellValue[]; }
 // Maps colIds to set of values to include when filtering.
 export interface IFilterSpec { [colId: string]: CellValue[]; }
 
+// Sort order for one column. Flags correspond to those supported by Grist's `sort` parameter.
+export interface ISortSpec {
+  colId: string;
+  descending?: boolean;
+  naturalSort?: boolean;
+  emptyFirst?: boolean;
+  orderByChoice?: boolean;
+}
+
+// Sort order for fetching records: either a Grist sort string (e.g. "-Date,Name"), or a list of
+// colIds (prefixed with "-" for descending) and ISortSpec objects.
+export type SortSpec = string | Array<string | ISortSpec>;
+
+// A record as returned by the records endpoint.
+export interface IRecordWithFields {
+  id: number;
+  fields: IRecord;
+}
+
+// Events that may trigger a webhook.
+export type WebhookEventType = 'add' | 'update';
+
+// Settings of a webhook, as used when adding or updating it.
+export interface IWebhookFields {
+  url: string;
+  eventTypes: WebhookEventType[];
+  tableId: string;
+  enabled?: boolean;
+  // Bool column which must be true for a record to be sent.
+  isReadyColumn?: string | null;
+  name?: string | null;
+  memo?: string | null;
+  // Value of the Authorization header to send with each request.
+  authorization?: string;
+}
+
+// Delivery status of a webhook, as reported by Grist.
+export interface IWebhookUsage {
+  numWaiting: number;
+  status: string;
+  lastSuccessTime?: number | null;
+  lastFailureTime?: number | null;
+  lastErrorMessage?: string | null;
+  lastHttpStatus?: number | null;
+  [key: string]: any;
+}
+
+export interface IWebhook {
+  id: string;
+  fields: IWebhookFields & { unsubscribeKey?: string };
+  usage: IWebhookUsage | null;
+}
+
 // Access level types
 export type AccessLevel = 'owners' | 'editors' | 'viewers' | 'members' | null;
 
@@ -56,6 +141,18 @@ export interface IOrg {
   domain: string;
 }
 
+// An org with its workspaces and their documents, as returned by getSiteTree.
+export interface ISiteTreeOrg extends IOrg {
+  workspaces: IWorkspace[];
+}
+
+// Result of resolvePath: the org, and the workspace and doc if the path includes them.
+export interface IResolvedPath {
+  org: IOrg;
+  workspace?: IWorkspace;
+  doc?: IDoc;
+}
+
 // Workspace interface
 export interface IWorkspace {
   id: number;
@@ -108,198 +205,585 @@ export interface IOrgParameters {
   name?: string;
 }
 
+// Information about an HTTP request, passed to the onRequest hook.
+export interface IRequestInfo {
+  method: Method;
+  url: string;
+  // 1 for the first attempt, incremented for each retry.
+  attempt: number;
+  // Size in bytes of the JSON request body, if any.
+  payloadSize?: number;
+}
+
+// Information about a completed request, passed to the onResponse hook.
+export interface IResponseInfo extends IRequestInfo {
+  status: number;
+  durationMs: number;
+  // Size in bytes of the response body, when reported by the server.
+  responseSize?: number;
+}
+
+// Information about a failed request, passed to the onError hook.
+export interface IRequestErrorInfo extends IRequestInfo {
+  error: Error;
+  // HTTP status, if the server responded.
+  status?: number;
+  durationMs: number;
+}
+
 // General config for API client
 export interface IGristCallConfig {
   apiKey?: string;
+  // Supplies credentials for each request when apiKey isn't given. Defaults to the GRIST_API_KEY
+  // env variable, then the profile for the server in ~/.grist-api.json, then ~/.grist-api-key.
+  credentials?: ICredentialProvider;
   server?: string;
   dryrun?: boolean;
   chunkSize?: number;
+  // Number of chunks of records to send in parallel in addRecords, updateRecords and
+  // deleteRecords (default: 1). May be overridden per call.
+  concurrency?: number;
+  // If set, failed requests are retried according to this policy.
+  retry?: IRetryPolicy;
+  // Logger to use instead of the default, which logs via the "debug" module.
+  logger?: ILogger;
+  // Hooks called for each HTTP request (including retries), e.g. to collect metrics.
+  onRequest?: (info: IRequestInfo) => void;
+  onResponse?: (info: IResponseInfo) => void;
+  onError?: (info: IRequestErrorInfo) => void;
+  // How long listings of orgs and workspaces are cached for lookups by name or path, in ms
+  // (default: 60000). Use 0 to disable caching.
+  cacheTtlMs?: number;
+  // Time limit for each request, in ms (default: no limit). May be overridden per call.
+  timeout?: number;
+}
+
+// Options accepted by every call, to limit how long it may take.
+export interface CallOptions {
+  // Aborts the call when signalled. Operations sent in chunks stop between chunks, so that no
+  // chunk is left partly sent.
+  signal?: AbortSignal;
+  // Time limit for each request, in ms; defaults to the timeout of IGristCallConfig.
+  timeout?: number;
 }
 
 // Options interfaces for specific method calls
-export interface ListWorkspacesOptions {
+export interface ListWorkspacesOptions extends CallOptions {
   orgId?: number | string;
 }
 
-export interface CreateWorkspaceOptions extends IWorkspaceParameters {
+export interface CreateWorkspaceOptions extends IWorkspaceParameters, CallOptions {
   orgId?: number | string;
 }
 
-export interface GetWorkspaceByNameOptions {
+export interface GetWorkspaceByNameOptions extends CallOptions {
   name: string;
   orgId?: number | string;
 }
 
-export interface GetOrgOptions {
+export interface ResolvePathOptions extends CallOptions {
+  // Path such as "Acme/Finance/Budget 2026": an org (by name or domain), optionally followed by a
+  // workspace name and a doc name or id. Use an array for names containing "/".
+  path: string | string[];
+}
+
+export interface GetOrgOptions extends CallOptions {
   orgId: number | string;
 }
 
-export interface GetOrgByNameOptions {
+export interface GetOrgByNameOptions extends CallOptions {
   name: string;
 }
 
-export interface GetOrgByDomainOptions {
+export interface GetOrgByDomainOptions extends CallOptions {
   domain: string;
 }
 
-
-export interface ModifyOrgOptions extends IOrgParameters {
+export interface ModifyOrgOptions extends IOrgParameters, CallOptions {
   orgId: number | string;
 }
 
-export interface DeleteOrgOptions {
+export interface DeleteOrgOptions extends CallOptions {
   orgId: number | string;
 }
 
-export interface GetOrgAccessOptions {
+export interface GetOrgAccessOptions extends CallOptions {
   orgId: number | string;
 }
 
-export interface ModifyOrgAccessOptions {
+export interface ModifyOrgAccessOptions extends CallOptions {
   orgId: number | string;
   delta: IAccessDelta;
 }
 
-export interface GetWorkspaceOptions {
+export interface GetWorkspaceOptions extends CallOptions {
   workspaceId: number;
 }
 
-export interface ModifyWorkspaceOptions extends IWorkspaceParameters {
+export interface ModifyWorkspaceOptions extends IWorkspaceParameters, CallOptions {
   workspaceId: number;
 }
 
-export interface DeleteWorkspaceOptions {
+export interface DeleteWorkspaceOptions extends CallOptions {
   workspaceId: number;
 }
 
-export interface GetWorkspaceAccessOptions {
+export interface GetWorkspaceAccessOptions extends CallOptions {
   workspaceId: number;
 }
 
-export interface ModifyWorkspaceAccessOptions {
+export interface ModifyWorkspaceAccessOptions extends CallOptions {
   workspaceId: number;
   delta: IWorkspaceAccessWrite;
 }
 
-export interface CreateDocOptions extends IDocParameters {
+export interface CreateDocOptions extends IDocParameters, CallOptions {
   workspaceId: number;
 }
 
-export interface GetDocOptions {
+export interface GetDocOptions extends CallOptions {
   docId?: string;
 }
 
-export interface GetDocByNameOptions {
+export interface GetDocByNameOptions extends CallOptions {
   name: string;
   workspaceId: number;
 }
 
-export interface ModifyDocOptions extends IDocParameters {
+export interface ModifyDocOptions extends IDocParameters, CallOptions {
+  docId?: string;
+}
+
+export interface DeleteDocOptions extends CallOptions {
   docId?: string;
 }
 
-export interface DeleteDocOptions {
+export interface MoveDocOptions extends CallOptions {
+  workspaceId: number;
   docId?: string;
 }
 
-export interface MoveDocOptions {
+export interface CopyDocOptions extends CallOptions {
+  // Workspace in which to create the copy.
   workspaceId: number;
+  documentName: string;
+  // If set, copies only the structure of the document, without its data.
+  asTemplate?: boolean;
+  docId?: string;
+}
+
+export interface ForkDocOptions extends CallOptions {
+  docId?: string;
+}
+
+// Ids of a new fork. The fork is opened by its docId (or urlId), which includes the original's.
+export interface IForkResult {
+  forkId: string;
+  docId: string;
+  urlId: string;
+}
+
+export interface ReplaceDocOptions extends CallOptions {
+  // Document whose content to use. Defaults to the document being replaced, for restoring one
+  // of its own snapshots.
+  sourceDocId?: string;
+  // Snapshot of the source document to use, as listed by listSnapshots; defaults to the latest.
+  snapshotId?: string;
+  docId?: string;
+}
+
+export interface ListSnapshotsOptions extends CallOptions {
+  // If set, lists all snapshots in storage, rather than only those retained by Grist's schedule.
+  raw?: boolean;
+  docId?: string;
+}
+
+export interface ListStatesOptions extends CallOptions {
+  docId?: string;
+}
+
+export interface CompareDocsOptions extends CallOptions {
+  // Document to compare with, e.g. a fork or copy; its changes are reported as rightChanges.
+  otherDocId: string;
+  docId?: string;
+}
+
+export interface CompareStatesOptions extends CallOptions {
+  // Hashes of the states to compare, as listed by listStates, or "HEAD" for the current state.
+  left: string;
+  right: string;
+  docId?: string;
+}
+
+export interface RemoveHistoryOptions extends CallOptions {
+  // Number of latest states to keep.
+  keep: number;
   docId?: string;
 }
 
-export interface GetDocAccessOptions {
+export interface GetDocAccessOptions extends CallOptions {
   docId?: string;
 }
 
-export interface ModifyDocAccessOptions {
+export interface ModifyDocAccessOptions extends CallOptions {
   delta: IWorkspaceAccessWrite;
   docId?: string;
 }
 
-export interface DownloadDocOptions {
+export interface DownloadDocOptions extends CallOptions {
   nohistory?: boolean;
   template?: boolean;
   docId?: string;
 }
 
-export interface CreateTableOptions {
+// Whether exported files use column ids or column labels as headers. Grist defaults to labels.
+export type ExportHeader = 'colId' | 'label';
+
+export interface DownloadCsvOptions extends CallOptions {
+  tableId: string;
+  header?: ExportHeader;
+  // If set, returns a stream rather than an ArrayBuffer (only supported in Node).
+  stream?: boolean;
+  docId?: string;
+}
+
+export interface DownloadXlsxOptions extends CallOptions {
+  // If given, exports only this table; otherwise, exports all tables, one per sheet.
+  tableId?: string;
+  header?: ExportHeader;
+  // If set, returns a stream rather than an ArrayBuffer (only supported in Node).
+  stream?: boolean;
+  docId?: string;
+}
+
+export interface DownloadTableSchemaOptions extends CallOptions {
+  tableId: string;
+  header?: ExportHeader;
+  docId?: string;
+}
+
+// Description of a table's CSV export in the Frictionless Data table-schema format.
+export interface ITableSchemaExport {
+  name: string;
+  title: string;
+  path: string;
+  format: string;
+  mediatype: string;
+  encoding: string;
+  dialect?: object;
+  schema: {
+    fields: Array<{
+      name: string;
+      type: string;
+      title?: string;
+      description?: string;
+      format?: string;
+      constraints?: object;
+      [key: string]: any;
+    }>;
+  };
+  [key: string]: any;
+}
+
+export interface CreateTableOptions extends CallOptions {
   docId?: string;
   schema: ITableSchema;
 }
 
-export interface ListTablesOptions {
+export interface ListTablesOptions extends CallOptions {
   docId?: string;
 }
 
-export interface GetTableOptions {
+export interface ListColumnsOptions extends CallOptions {
+  tableId: string;
+  hidden?: boolean;
+  docId?: string;
+}
+
+export interface AddColumnsOptions extends CallOptions {
+  tableId: string;
+  columns: IColumnSpec[];
+  docId?: string;
+}
+
+export interface ModifyColumnsOptions extends CallOptions {
+  tableId: string;
+  columns: IColumnSpec[];
+  docId?: string;
+}
+
+export interface ReplaceColumnsOptions extends CallOptions {
+  tableId: string;
+  columns: IColumnSpec[];
+  noadd?: boolean;
+  noupdate?: boolean;
+  replaceall?: boolean;
+  docId?: string;
+}
+
+export interface DeleteColumnOptions extends CallOptions {
+  tableId: string;
+  colId: string;
+  docId?: string;
+}
+
+export interface GetTableOptions extends CallOptions {
   tableId?: string;
   docId?: string;
 }
 
-export interface GetTableByIdOptions {
+export interface GetTableByIdOptions extends CallOptions {
   tableId?: string;
   docId?: string;
 }
 
-export interface GetTableByNameOptions {
+export interface GetTableByNameOptions extends CallOptions {
   name?: string;
   docId?: string;
 }
 
-export interface FetchTableOptions {
+export interface FetchTableOptions extends CallOptions {
   tableName: string;
   filters?: IFilterSpec;
+  sort?: SortSpec;
+  limit?: number;
+  // Include hidden columns, such as gristHelper_*.
+  hidden?: boolean;
+  // Decode cell values into JS types (see decodeCellValue).
+  typedValues?: boolean;
   docId?: string;
 }
 
-export interface AddRecordsOptions {
+export interface IterateTableOptions extends CallOptions {
+  tableName: string;
+  filters?: IFilterSpec;
+  // Maximum number of rows to fetch per request. Defaults to 500.
+  pageSize?: number;
+  docId?: string;
+}
+
+export interface QuerySqlOptions extends CallOptions {
+  sql: string;
+  // Values for '?' placeholders in the statement.
+  args?: CellValue[];
+  // Time limit for the query, in milliseconds, enforced by the server. The `timeout` option limits
+  // the request as a whole, so should allow for more than this.
+  queryTimeoutMs?: number;
+  docId?: string;
+}
+
+// Progress of an operation sent in chunks, reported after each chunk completes.
+export interface IChunkProgress {
+  chunksDone: number;
+  totalChunks: number;
+  rowsDone: number;
+  totalRows: number;
+}
+
+// Options for operations that send records in chunks.
+export interface ChunkedCallOptions extends CallOptions {
+  // Number of chunks to send in parallel; defaults to the concurrency of IGristCallConfig.
+  concurrency?: number;
+  onProgress?: (progress: IChunkProgress) => void;
+}
+
+export interface AddRecordsOptions extends ChunkedCallOptions {
   tableName: string;
-  records: IRecord[];
+  // May contain typed values (see encodeCellValue) when typedValues is set.
+  records: IRecord[] | ITypedRecord[];
+  typedValues?: boolean;
   docId?: string;
 }
 
-export interface DeleteRecordsOptions {
+export interface ApplyActionsOptions extends CallOptions {
+  actions: UserActionBatch | UserAction[];
+  docId?: string;
+}
+
+export interface DeleteRecordsOptions extends ChunkedCallOptions {
   tableName: string;
   recordIds: number[];
   docId?: string;
 }
 
-export interface UpdateRecordsOptions {
+export interface UpdateRecordsOptions extends ChunkedCallOptions {
+  tableName: string;
+  // May contain typed values (see encodeCellValue) when typedValues is set.
+  records: IRecord[] | ITypedRecord[];
+  typedValues?: boolean;
+  docId?: string;
+}
+
+// A record for the add-or-update endpoint: rows matching `require` get updated with `fields`, and
+// if there are none, a row with both is added.
+export interface IUpsertRecord {
+  require: IRecord;
+  fields?: IRecord;
+}
+
+// Which rows to update when several match the `require` values of an IUpsertRecord.
+export type OnManyOption = 'first' | 'none' | 'all';
+
+export interface AddOrUpdateRecordsOptions extends CallOptions {
   tableName: string;
-  records: IRecord[];
+  records: IUpsertRecord[];
+  // Defaults to 'first'.
+  onMany?: OnManyOption;
+  // Don't add records that don't match any rows.
+  noadd?: boolean;
+  // Don't update rows that match records.
+  noupdate?: boolean;
   docId?: string;
 }
 
-export interface SyncTableOptions {
+// How syncTable finds changes: 'client-diff' fetches the table and compares it with the records,
+// sending only the differences; 'server-upsert' sends all records to Grist's add-or-update
+// endpoint, which matches them by key on the server.
+export type SyncStrategy = 'client-diff' | 'server-upsert';
+
+export interface SyncTableOptions extends CallOptions {
   tableName: string;
-  records: IRecord[];
+  // May contain typed values (see encodeCellValue) when typedValues is set.
+  records: IRecord[] | ITypedRecord[];
   keyColIds: string[];
   filters?: IFilterSpec;
+  typedValues?: boolean;
+  // Delete rows (within the scope of filters) whose keys are not present in records.
+  deleteMissing?: boolean;
+  // With deleteMissing, abort without making changes if more than this percentage of rows in
+  // scope would be deleted.
+  maxDeletePercent?: number;
+  // Defaults to 'client-diff'. The 'server-upsert' strategy doesn't support deleteMissing.
+  strategy?: SyncStrategy;
+  // Don't add records whose keys are not found, or don't update those whose keys are found.
+  noadd?: boolean;
+  noupdate?: boolean;
+  // With 'server-upsert', which rows to update when several have the same key.
+  onMany?: OnManyOption;
+  docId?: string;
+}
+
+// Result of syncTable: the numbers of rows added, updated and deleted.
+export interface ISyncTableResult {
+  numAdded: number;
+  numUpdated: number;
+  numDeleted: number;
+  // With 'server-upsert', Grist doesn't report which records were added and which updated, so
+  // numAdded and numUpdated are 0, and this is the number of records sent.
+  numUpserted?: number;
+}
+
+export interface ListAccessRulesOptions extends CallOptions {
+  docId?: string;
+}
+
+export interface AddAccessRulesOptions extends CallOptions {
+  rules: IAccessRuleSpec[];
+  docId?: string;
+}
+
+export interface UpdateAccessRulesOptions extends CallOptions {
+  rules: AccessRuleUpdate[];
+  docId?: string;
+}
+
+export interface RemoveAccessRulesOptions extends CallOptions {
+  ruleIds: number[];
+  docId?: string;
+}
+
+export interface EnsureAccessRulesOptions extends CallOptions {
+  // The complete list of rules the document should have, in order.
+  rules: IAccessRuleSpec[];
+  docId?: string;
+}
+
+export interface ListWebhooksOptions extends CallOptions {
+  docId?: string;
+}
+
+export interface AddWebhooksOptions extends CallOptions {
+  webhooks: IWebhookFields[];
+  docId?: string;
+}
+
+export interface UpdateWebhookOptions extends CallOptions {
+  webhookId: string;
+  fields: Partial<IWebhookFields>;
+  docId?: string;
+}
+
+export interface DeleteWebhookOptions extends CallOptions {
+  webhookId: string;
+  docId?: string;
+}
+
+export interface ClearWebhookQueueOptions extends CallOptions {
+  // If given, only clears the queue of this webhook.
+  webhookId?: string;
+  docId?: string;
+}
+
+// File to upload as an attachment. In Node, this may be a file path, a Buffer or stream with a
+// filename, or a File; in the browser, only File is supported.
+export type AttachmentSource = File | string | IAttachmentPath | IAttachmentData;
+
+export interface IAttachmentPath {
+  path: string;
+  // Defaults to the basename of path.
+  filename?: string;
+  contentType?: string;
+}
+
+export interface IAttachmentData {
+  data: Buffer | NodeJS.ReadableStream;
+  filename: string;
+  contentType?: string;
+}
+
+// Metadata of an attachment, from the _grist_Attachments table.
+export interface IAttachmentMetadata {
+  id: number;
+  fileName: string;
+  fileSize: number;
+  // Time of the upload as an ISO 8601 date string, e.g. "2024-01-31T12:00:00.000Z", if known.
+  timeUploaded: string | null;
+  imageHeight?: number;
+  imageWidth?: number;
+}
+
+export interface AttachOptions extends CallOptions {
+  files: AttachmentSource[];
+  docId?: string;
+}
+
+export interface ListAttachmentsOptions extends CallOptions {
+  filters?: IFilterSpec;
+  sort?: SortSpec;
+  limit?: number;
   docId?: string;
 }
 
-export interface AttachOptions {
-  files: File[];
+export interface DownloadAttachmentOptions extends CallOptions {
+  attachmentId: number;
+  // If set, returns a stream rather than the content (only supported in Node).
+  stream?: boolean;
   docId?: string;
 }
 
-export async function getAPIKey(): Promise<string> {
+const defaultServer = 'https://api.getgrist.com';
+
+/**
+ * Returns the API key that GristDocAPI uses by default for the given server: from the
+ * GRIST_API_KEY env variable, then the profile for the server, then ~/.grist-api-key.
+ * @deprecated Use makeDefaultCredentials(), or other credential providers, instead.
+ */
+export async function getAPIKey(server: string = defaultServer): Promise<string> {
   if (typeof process === 'undefined') {
     throw new Error('In browser environment, Grist API key must be provided');
   }
-
-  // Otherwise, assume we are in node environment.
-  if (process.env.GRIST_API_KEY !== undefined) {
-    return process.env.GRIST_API_KEY;
-  }
-  const os = require('os');
-  const path = require('path');
-  const fse: typeof FsExtra = require('fs-extra');
-  const keyPath = path.join(os.homedir(), ".grist-api-key");
-  if (await fse.pathExists(keyPath)) {
-    return (await fse.readFile(keyPath, {encoding: 'utf8'})).trim();
-  }
-  throw new Error(`Grist API key not given, or found in GRIST_API_KEY env, or in ${keyPath}`);
+  const headers = await makeDefaultCredentials().getHeaders(server);
+  return headers!.Authorization.replace(/^Bearer /, '');
 }
 
 /**
@@ -309,17 +793,32 @@ export class GristDocAPI {
   private _dryrun: boolean;
   private _docId: string | null;
   private _server: string;
-  private _apiKey: string | null;
+  private _credentials: ICredentialProvider;
   private _chunkSize: number;
+  private _concurrency: number;
+  private _timeout: number | undefined;
   private _orgId: number | string | null;
+  private _retry: IRetryPolicy | null;
+  private _logger: ILogger;
+  private _hooks: Pick<IGristCallConfig, 'onRequest' | 'onResponse' | 'onError'>;
+  private _dryRunPlan: IDryRunEntry[] = [];
+  // Cached listings of orgs and workspaces, cleared whenever this API changes any of them.
+  private _siteCache: TtlCache<any>;
 
   constructor(options: IGristCallConfig = {}) {
     this._dryrun = Boolean(options.dryrun);
-    this._server = options.server || 'https://api.getgrist.com';
-    this._apiKey = options.apiKey ?? null;
+    this._server = options.server || defaultServer;
+    this._credentials = options.apiKey ? makeStaticCredentials(options.apiKey) :
+      (options.credentials || makeDefaultCredentials());
     this._chunkSize = options.chunkSize || 500;
+    this._concurrency = options.concurrency || 1;
+    this._timeout = options.timeout;
     this._docId = null;
     this._orgId = null;
+    this._retry = options.retry || null;
+    this._logger = options.logger || makeDebugLogger();
+    this._hooks = pick(options, ['onRequest', 'onResponse', 'onError']);
+    this._siteCache = new TtlCache(options.cacheTtlMs ?? 60000);
   }
 
   /**
@@ -371,132 +870,266 @@ export class GristDocAPI {
   public get docId(): string | null { return this._docId; }
   public get orgId(): number | string | null { return this._orgId; }
 
+  /**
+   * In dryrun mode, returns the changes that would have been made so far, in order. Use
+   * formatDryRunPlan() to get a human-readable summary.
+   */
+  public getDryRunPlan(): IDryRunEntry[] { return this._dryRunPlan.slice(); }
+
+  public clearDryRunPlan(): void { this._dryRunPlan = []; }
+
+  /**
+   * Returns a handle to a table of the current document (or of docId, if given), with methods
+   * typed by the TRecord interface. Such interfaces may be generated with generateTableTypes().
+   */
+  public table<TRecord extends object = IRecord>(tableName: string, docId?: string): GristTable<TRecord> {
+    return new GristTable<TRecord>(this, tableName, docId ?? this._resolveDocId());
+  }
+
   // Organization endpoints using options object
-  public async listOrgs(): Promise<IOrg[]> {
-    return await this._call('orgs');
+  public async listOrgs(options: CallOptions = {}): Promise<IOrg[]> {
+    return await this._call('orgs', undefined, 'GET', undefined, options);
   }
 
   public async getOrg(options: GetOrgOptions): Promise<IOrg> {
     const { orgId } = options;
-    return await this._call(`orgs/${orgId}`);
+    return await this._call(`orgs/${orgId}`, undefined, 'GET', undefined, options);
   }
 
   public async getOrgByName(options: GetOrgByNameOptions): Promise<IOrg | undefined> {
     const { name } = options;
-    const orgs = await this.listOrgs();
+    const orgs: IOrg[] = await this._cachedCall('orgs', options);
     return orgs.find((org: IOrg) => org.name === name);
   }
 
   public async getOrgByDomain(options: GetOrgByDomainOptions): Promise<IOrg | undefined> {
     const { domain } = options;
-    const orgs = await this.listOrgs();
+    const orgs: IOrg[] = await this._cachedCall('orgs', options);
     return orgs.find((org: IOrg) => org.domain === domain);
   }
 
   public async modifyOrg(options: ModifyOrgOptions): Promise<void> {
-    const { orgId, ...params } = options;
-    await this._call(`orgs/${orgId}`, params, 'PATCH');
+    const { orgId, signal, timeout, ...params } = options;
+    await this._call(`orgs/${orgId}`, params, 'PATCH', undefined, options);
   }
 
   public async deleteOrg(options: DeleteOrgOptions): Promise<void> {
     const { orgId } = options;
-    await this._call(`orgs/${orgId}`, undefined, 'DELETE');
+    await this._call(`orgs/${orgId}`, undefined, 'DELETE', undefined, options);
   }
 
   public async getOrgAccess(options: GetOrgAccessOptions): Promise<IUserAccess[]> {
     const { orgId } = options;
-    return await this._call(`orgs/${orgId}/access`);
+    return await this._call(`orgs/${orgId}/access`, undefined, 'GET', undefined, options);
   }
 
   public async modifyOrgAccess(options: ModifyOrgAccessOptions): Promise<void> {
     const { orgId, delta } = options;
-    await this._call(`orgs/${orgId}/access`, { delta }, 'PATCH');
+    await this._call(`orgs/${orgId}/access`, { delta }, 'PATCH', undefined, options);
+  }
+
+  /**
+   * Returns all orgs, with their workspaces and documents.
+   */
+  public async getSiteTree(options: CallOptions = {}): Promise<ISiteTreeOrg[]> {
+    const orgs: IOrg[] = await this._cachedCall('orgs', options);
+    return await Promise.all(orgs.map(async (org) => ({
+      ...org,
+      workspaces: await this._cachedCall(`orgs/${org.id}/workspaces`, options),
+    })));
+  }
+
+  /**
+   * Finds the org, workspace and doc named by a path such as "Acme/Finance/Budget 2026", throwing
+   * an error if any part isn't found.
+   */
+  public async resolvePath(options: ResolvePathOptions): Promise<IResolvedPath> {
+    const { path } = options;
+    const [orgName, workspaceName, docName, ...rest] = Array.isArray(path) ? path : path.split('/');
+    if (!orgName || rest.length > 0) {
+      throw new Error(`Invalid path ${JSON.stringify(path)}: expected "org", "org/workspace" or "org/workspace/doc"`);
+    }
+    const orgs: IOrg[] = await this._cachedCall('orgs', options);
+    const org = orgs.find((o) => o.name === orgName) || orgs.find((o) => o.domain === orgName);
+    if (!org) { throw new Error(`Org "${orgName}" not found`); }
+    if (workspaceName === undefined) { return { org }; }
+
+    const workspaces: IWorkspace[] = await this._cachedCall(`orgs/${org.id}/workspaces`, options);
+    const workspace = workspaces.find((ws) => ws.name === workspaceName);
+    if (!workspace) { throw new Error(`Workspace "${workspaceName}" not found in org "${orgName}"`); }
+    if (docName === undefined) { return { org, workspace }; }
+
+    const docs = workspace.docs || [];
+    const doc = docs.find((d) => d.name === docName) || docs.find((d) => d.id === docName);
+    if (!doc) { throw new Error(`Doc "${docName}" not found in workspace "${workspaceName}"`); }
+    return { org, workspace, doc };
+  }
+
+  /**
+   * Clears cached listings of orgs and workspaces, e.g. after they were changed by other clients.
+   * Changes made through this GristDocAPI clear them automatically.
+   */
+  public invalidateCache(): void {
+    this._siteCache.clear();
   }
 
   // Workspace endpoints using options object
   public async listWorkspaces(options: ListWorkspacesOptions = {}): Promise<IWorkspace[]> {
     const { orgId } = options;
     const resolvedOrgId = this._resolveOrgId(orgId);
-    return await this._call(`orgs/${resolvedOrgId}/workspaces`);
+    return await this._call(`orgs/${resolvedOrgId}/workspaces`, undefined, 'GET', undefined, options);
   }
 
   public async createWorkspace(options: CreateWorkspaceOptions): Promise<number> {
-    const { orgId, ...params } = options;
+    const { orgId, signal, timeout, ...params } = options;
     const resolvedOrgId = this._resolveOrgId(orgId);
-    return await this._call(`orgs/${resolvedOrgId}/workspaces`, params, 'POST');
+    return await this._call(`orgs/${resolvedOrgId}/workspaces`, params, 'POST', undefined, options);
   }
 
   public async getWorkspace(options: GetWorkspaceOptions): Promise<IWorkspace> {
     const { workspaceId } = options;
-    return await this._call(`workspaces/${workspaceId}`);
+    return await this._call(`workspaces/${workspaceId}`, undefined, 'GET', undefined, options);
   }
 
   public async getWorkspaceByName(options: GetWorkspaceByNameOptions): Promise<IWorkspace | undefined> {
     const { name, orgId } = options;
-    const workspaces = await this.listWorkspaces({ orgId });
+    const url = `orgs/${this._resolveOrgId(orgId)}/workspaces`;
+    const workspaces: IWorkspace[] = await this._cachedCall(url, options);
     return workspaces.find((workspace: IWorkspace) => workspace.name === name);
   }
 
   public async modifyWorkspace(options: ModifyWorkspaceOptions): Promise<void> {
-    const { workspaceId, ...params } = options;
-    await this._call(`workspaces/${workspaceId}`, params, 'PATCH');
+    const { workspaceId, signal, timeout, ...params } = options;
+    await this._call(`workspaces/${workspaceId}`, params, 'PATCH', undefined, options);
   }
 
   public async deleteWorkspace(options: DeleteWorkspaceOptions): Promise<void> {
     const { workspaceId } = options;
-    await this._call(`workspaces/${workspaceId}`, undefined, 'DELETE');
+    await this._call(`workspaces/${workspaceId}`, undefined, 'DELETE', undefined, options);
   }
 
   public async getWorkspaceAccess(options: GetWorkspaceAccessOptions): Promise<IWorkspaceAccessRead> {
     const { workspaceId } = options;
-    return await this._call(`workspaces/${workspaceId}/access`);
+    return await this._call(`workspaces/${workspaceId}/access`, undefined, 'GET', undefined, options);
   }
 
   public async modifyWorkspaceAccess(options: ModifyWorkspaceAccessOptions): Promise<void> {
     const { workspaceId, delta } = options;
-    await this._call(`workspaces/${workspaceId}/access`, { delta }, 'PATCH');
+    await this._call(`workspaces/${workspaceId}/access`, { delta }, 'PATCH', undefined, options);
   }
 
   // Document endpoints using options object
   public async createDoc(options: CreateDocOptions): Promise<string> {
-    const { workspaceId, ...params } = options;
-    return await this._call(`workspaces/${workspaceId}/docs`, params, 'POST');
+    const { workspaceId, signal, timeout, ...params } = options;
+    return await this._call(`workspaces/${workspaceId}/docs`, params, 'POST', undefined, options);
   }
 
   public async getDoc(options: GetDocOptions = {}): Promise<IDoc> {
     const { docId } = options;
-    return await this._docCall('', undefined, 'GET', undefined, docId);
+    return await this._docCall('', undefined, 'GET', undefined, docId, options);
   }
 
   public async getDocByName(options: GetDocByNameOptions): Promise<IDoc | undefined> {
     const { name, workspaceId } = options;
-    const workspace = await this.getWorkspace({ workspaceId });
+    const workspace: IWorkspace = await this._cachedCall(`workspaces/${workspaceId}`, options);
     return workspace.docs?.find((doc: IDoc) => doc.name === name);
   }
 
   public async modifyDoc(options: ModifyDocOptions): Promise<void> {
-    const { docId, ...params } = options;
-    await this._docCall('', params, 'PATCH', undefined, docId);
+    const { docId, signal, timeout, ...params } = options;
+    await this._docCall('', params, 'PATCH', undefined, docId, options);
   }
 
   public async deleteDoc(options: DeleteDocOptions = {}): Promise<void> {
     const { docId } = options;
-    await this._docCall('', undefined, 'DELETE', undefined, docId);
+    await this._docCall('', undefined, 'DELETE', undefined, docId, options);
   }
 
   public async moveDoc(options: MoveDocOptions): Promise<void> {
     const { docId, workspaceId } = options;
-    await this._docCall('move', { workspace: workspaceId }, 'PATCH', undefined, docId);
+    await this._docCall('move', { workspace: workspaceId }, 'PATCH', undefined, docId, options);
+  }
+
+  /**
+   * Copies a document into a workspace, returning the id of the new document.
+   */
+  public async copyDoc(options: CopyDocOptions): Promise<string> {
+    const { docId, signal, timeout, ...params } = options;
+    return await this._docCall('copy', params, 'POST', undefined, docId, options);
+  }
+
+  /**
+   * Creates a fork of a document: a copy of it that may be changed without affecting the original.
+   */
+  public async forkDoc(options: ForkDocOptions = {}): Promise<IForkResult> {
+    const { docId } = options;
+    return await this._docCall('fork', {}, 'POST', undefined, docId, options);
+  }
+
+  /**
+   * Replaces the content of a document with that of another document (such as a fork or a staging
+   * copy), or with a snapshot. The replaced document keeps its id, name and sharing settings.
+   */
+  public async replaceDoc(options: ReplaceDocOptions): Promise<void> {
+    const { docId, sourceDocId, snapshotId } = options;
+    if (!sourceDocId && !snapshotId) {
+      throw new Error('replaceDoc requires sourceDocId or snapshotId');
+    }
+    await this._docCall('replace', { sourceDocId, snapshotId }, 'POST', undefined, docId, options);
+  }
+
+  public async listSnapshots(options: ListSnapshotsOptions = {}): Promise<ISnapshot[]> {
+    const { raw, docId } = options;
+    const resp = await this._docCall(`snapshots${raw ? '?raw=true' : ''}`, undefined, 'GET', undefined, docId, options);
+    return resp.snapshots;
+  }
+
+  /**
+   * Lists the states in the document's action history, latest first.
+   */
+  public async listStates(options: ListStatesOptions = {}): Promise<IDocState[]> {
+    const { docId } = options;
+    const resp = await this._docCall('states', undefined, 'GET', undefined, docId, options);
+    return resp.states;
+  }
+
+  /**
+   * Compares the document with another one, such as its fork, including the changes on each side
+   * since their common parent.
+   */
+  public async compareDocs(options: CompareDocsOptions): Promise<IDocComparison> {
+    const { otherDocId, docId } = options;
+    const resp = await this._docCall(`compare/${encodeURIComponent(otherDocId)}?detail=1`,
+      undefined, 'GET', undefined, docId, options);
+    return parseComparison(resp);
+  }
+
+  /**
+   * Compares two states of the document, e.g. to see the rows changed between them.
+   */
+  public async compareStates(options: CompareStatesOptions): Promise<IDocComparison> {
+    const { left, right, docId } = options;
+    const query = new URLSearchParams({left, right});
+    const resp = await this._docCall(`compare?${query.toString()}`, undefined, 'GET', undefined, docId, options);
+    return parseComparison(resp);
+  }
+
+  /**
+   * Removes all but the latest `keep` states from the document's action history.
+   */
+  public async removeHistory(options: RemoveHistoryOptions): Promise<void> {
+    const { keep, docId } = options;
+    await this._docCall('states/remove', { keep }, 'POST', undefined, docId, options);
   }
 
   public async getDocAccess(options: GetDocAccessOptions = {}): Promise<IWorkspaceAccessRead> {
     const { docId } = options;
-    return await this._docCall('access', undefined, 'GET', undefined, docId);
+    return await this._docCall('access', undefined, 'GET', undefined, docId, options);
   }
 
   public async modifyDocAccess(options: ModifyDocAccessOptions): Promise<void> {
     const { docId, delta } = options;
-    await this._docCall('access', { delta }, 'PATCH', undefined, docId);
+    await this._docCall('access', { delta }, 'PATCH', undefined, docId, options);
   }
 
   public async downloadDoc(options: DownloadDocOptions = {}): Promise<ArrayBuffer> {
@@ -505,75 +1138,241 @@ export class GristDocAPI {
     if (nohistory) { query.set('nohistory', 'true'); }
     if (template) { query.set('template', 'true'); }
     const queryStr = query.toString() ? `?${query.toString()}` : '';
-    return await this._docCall(`download${queryStr}`, undefined, 'GET', 'arraybuffer' as ResponseType, docId);
+    return await this._docCall(`download${queryStr}`, undefined, 'GET', 'arraybuffer' as ResponseType, docId, options);
+  }
+
+  /**
+   * Downloads a table as CSV, as an ArrayBuffer, or as a stream if `stream` is set.
+   */
+  public downloadCsv(options: DownloadCsvOptions & {stream: true}): Promise<NodeJS.ReadableStream>;
+  public downloadCsv(options: DownloadCsvOptions): Promise<ArrayBuffer>;
+  public async downloadCsv(options: DownloadCsvOptions): Promise<ArrayBuffer | NodeJS.ReadableStream> {
+    const { tableId, header, stream, docId } = options;
+    const query = new URLSearchParams({tableId});
+    if (header) { query.set('header', header); }
+    const responseType: ResponseType = stream ? 'stream' : 'arraybuffer';
+    return await this._docCall(`download/csv?${query.toString()}`, undefined, 'GET', responseType, docId, options);
+  }
+
+  /**
+   * Downloads the document, or only one table if `tableId` is given, as an Excel workbook, as an
+   * ArrayBuffer, or as a stream if `stream` is set.
+   */
+  public downloadXlsx(options: DownloadXlsxOptions & {stream: true}): Promise<NodeJS.ReadableStream>;
+  public downloadXlsx(options?: DownloadXlsxOptions): Promise<ArrayBuffer>;
+  public async downloadXlsx(options: DownloadXlsxOptions = {}): Promise<ArrayBuffer | NodeJS.ReadableStream> {
+    const { tableId, header, stream, docId } = options;
+    const query = new URLSearchParams();
+    if (tableId) { query.set('tableId', tableId); }
+    if (header) { query.set('header', header); }
+    const queryStr = query.toString() ? `?${query.toString()}` : '';
+    const responseType: ResponseType = stream ? 'stream' : 'arraybuffer';
+    return await this._docCall(`download/xlsx${queryStr}`, undefined, 'GET', responseType, docId, options);
+  }
+
+  /**
+   * Returns the Frictionless Data table-schema describing the CSV export of a table (as returned
+   * by downloadCsv with the same options).
+   */
+  public async downloadTableSchema(options: DownloadTableSchemaOptions): Promise<ITableSchemaExport> {
+    const { tableId, header, docId } = options;
+    const query = new URLSearchParams({tableId});
+    if (header) { query.set('header', header); }
+    return await this._docCall(`download/table-schema?${query.toString()}`, undefined, 'GET', undefined, docId,
+      options);
   }
 
   public async createTable(options: CreateTableOptions): Promise<number> {
-    const { docId, ...params } = options;
-    return await this._docCall(`tables`, params, 'POST', undefined, docId);
+    const { docId, signal, timeout, ...params } = options;
+    return await this._docCall(`tables`, params, 'POST', undefined, docId, options);
   }
 
   public async listTables(options: ListTablesOptions): Promise<ITable[]> {
     const { docId } = options;
-    let tables = await this._docCall(`tables`, undefined, 'GET', undefined, docId);
+    let tables = await this._docCall(`tables`, undefined, 'GET', undefined, docId, options);
     return tables.tables;
   }
 
   public async getTable(options: GetTableOptions): Promise<ITable | undefined | null> {
-    const { tableId, docId } = options;
-    const tables = await this.listTables({ docId });
+    const { tableId } = options;
+    const tables = await this.listTables(options);
     return tables.find((table) => table.id === tableId);
   }
 
   public async getTableById(options: GetTableByIdOptions): Promise<ITable | undefined | null> {
-    const { tableId, docId } = options;
-    const tables = await this.listTables({ docId });
+    const { tableId } = options;
+    const tables = await this.listTables(options);
     return tables.find((table) => table.id === tableId);
   }
 
   public async getTableByName(options: GetTableByNameOptions): Promise<ITable | undefined | null> {
-    const { name, docId } = options;
-    const tables = await this.listTables({ docId });
-    console.log('------tables------', tables);
+    const { name } = options;
+    const tables = await this.listTables(options);
     return tables.find((table) => table.id === name);
   }
 
-  public async fetchTable(options: FetchTableOptions): Promise<IRecord[]> {
-    const { tableName, filters, docId } = options;
+  /**
+   * Lists the columns of a table. With `hidden`, includes hidden columns such as gristHelper_*.
+   */
+  public async listColumns(options: ListColumnsOptions): Promise<IColumn[]> {
+    const { tableId, hidden, docId } = options;
+    const queryStr = hidden ? '?hidden=true' : '';
+    const resp = await this._docCall(`tables/${tableId}/columns${queryStr}`, undefined, 'GET', undefined, docId,
+      options);
+    return resp.columns;
+  }
+
+  /**
+   * Adds columns to a table, returning the ids of the added columns. These may differ from the
+   * requested ids if Grist had to adjust them to be valid and unique.
+   */
+  public async addColumns(options: AddColumnsOptions): Promise<string[]> {
+    const { tableId, columns, docId } = options;
+    const resp = await this._docCall(`tables/${tableId}/columns`, { columns }, 'POST', undefined, docId, options);
+    return (resp?.columns || []).map((col: {id: string}) => col.id);
+  }
+
+  /**
+   * Modifies the fields of existing columns. Only the fields given are changed.
+   */
+  public async modifyColumns(options: ModifyColumnsOptions): Promise<void> {
+    const { tableId, columns, docId } = options;
+    await this._docCall(`tables/${tableId}/columns`, { columns }, 'PATCH', undefined, docId, options);
+  }
+
+  /**
+   * Adds or updates columns by id. With `noadd` or `noupdate`, skips missing or existing columns
+   * respectively; with `replaceall`, also removes columns not listed.
+   */
+  public async replaceColumns(options: ReplaceColumnsOptions): Promise<void> {
+    const { tableId, columns, noadd, noupdate, replaceall, docId } = options;
+    const query = new URLSearchParams();
+    if (noadd) { query.set('noadd', 'true'); }
+    if (noupdate) { query.set('noupdate', 'true'); }
+    if (replaceall) { query.set('replaceall', 'true'); }
+    const queryStr = query.toString() ? `?${query.toString()}` : '';
+    await this._docCall(`tables/${tableId}/columns${queryStr}`, { columns }, 'PUT', undefined, docId, options);
+  }
+
+  public async deleteColumn(options: DeleteColumnOptions): Promise<void> {
+    const { tableId, colId, docId } = options;
+    await this._docCall(`tables/${tableId}/columns/${colId}`, undefined, 'DELETE', undefined, docId, options);
+  }
+
+  /**
+   * Fetches records from a table, optionally filtered. If any of `sort`, `limit` or `hidden` are
+   * given, uses the records endpoint, which supports them. With `typedValues`, cell values are
+   * decoded into JS types.
+   */
+  public fetchTable(options: FetchTableOptions & {typedValues: true}): Promise<ITypedRecord[]>;
+  public fetchTable(options: FetchTableOptions): Promise<IRecord[]>;
+  public async fetchTable(options: FetchTableOptions): Promise<IRecord[] | ITypedRecord[]> {
+    const records = await this._fetchRecords(options);
+    return options.typedValues ? records.map(decodeRecord) : records;
+  }
+
+  private async _fetchRecords(options: FetchTableOptions): Promise<IRecord[]> {
+    const { tableName, filters, sort, limit, hidden, docId } = options;
+    if (sort !== undefined || limit !== undefined || hidden) {
+      const params = new URLSearchParams();
+      if (filters) { params.set('filter', JSON.stringify(filters)); }
+      if (sort !== undefined) { params.set('sort', makeSortParam(sort)); }
+      if (limit !== undefined) { params.set('limit', String(limit)); }
+      if (hidden) { params.set('hidden', 'true'); }
+      const resp = await this._docCall(`tables/${tableName}/records?${params.toString()}`,
+        undefined, 'GET', undefined, docId, options);
+      if (!resp || !Array.isArray(resp.records)) {
+        throw new Error(`fetchTable ${tableName} returned bad response: records is not an array`);
+      }
+      return resp.records.map((rec: IRecordWithFields) => ({id: rec.id, ...rec.fields}));
+    }
     const query = filters ? `?filter=${encodeURIComponent(JSON.stringify(filters))}` : '';
-    const data: ITableData = await this._docCall(`tables/${tableName}/data${query}`, undefined, 'GET', undefined, docId);
+    const data: ITableData = await this._docCall(`tables/${tableName}/data${query}`, undefined, 'GET', undefined,
+      docId, options);
     if (!Array.isArray(data.id)) {
       throw new Error(`fetchTable ${tableName} returned bad response: id column is not an array`);
     }
     return data.id.map((id, index) => mapValues(data, (col) => col[index]));
   }
 
+  /**
+   * Fetches a table in pages of up to pageSize records, ordered by row id, so that large tables
+   * can be processed without holding them in memory. Each page is fetched by first looking up the
+   * next row ids, then fetching the records with those ids that match `filters`; so pages may
+   * contain fewer records than pageSize when filtering, but are never empty.
+   */
+  public async *iterateTable(options: IterateTableOptions): AsyncIterableIterator<IRecord[]> {
+    const { tableName, filters, pageSize = 500, docId, signal, timeout } = options;
+    const quotedTable = `"${tableName.replace(/"/g, '""')}"`;
+    let lastRowId = 0;
+    while (true) {
+      const idRows = await this.querySql({
+        sql: `SELECT id FROM ${quotedTable} WHERE id > ? ORDER BY id LIMIT ?`,
+        args: [lastRowId, pageSize],
+        docId, signal, timeout,
+      });
+      if (idRows.length === 0) { return; }
+      lastRowId = idRows[idRows.length - 1].id as number;
+
+      let rowIds = idRows.map((row) => row.id);
+      if (filters?.id) {
+        const allowedIds = new Set(filters.id);
+        rowIds = rowIds.filter((id) => allowedIds.has(id));
+      }
+      if (rowIds.length === 0) { continue; }
+      const records = await this.fetchTable({ tableName, filters: {...filters, id: rowIds}, docId, signal, timeout });
+      if (records.length > 0) {
+        yield records.sort((a, b) => (a.id as number) - (b.id as number));
+      }
+      if (idRows.length < pageSize) { return; }
+    }
+  }
+
+  /**
+   * Runs a read-only SQL SELECT statement against the document, returning the resulting rows.
+   * Use '?' placeholders in the statement for values passed in `args`.
+   */
+  public async querySql(options: QuerySqlOptions): Promise<IRecord[]> {
+    const { sql, args, queryTimeoutMs, docId } = options;
+    const resp = await this._docCall('sql', { sql, args, timeout: queryTimeoutMs }, 'POST', undefined, docId, options);
+    if (!resp || !Array.isArray(resp.records)) {
+      throw new Error(`querySql returned bad response: records is not an array`);
+    }
+    return resp.records.map((rec: {fields: IRecord}) => rec.fields);
+  }
+
   public async addRecords(options: AddRecordsOptions): Promise<number[]> {
-    console.log('------addRecords------', options);
-    const { tableName, records, docId } = options;
+    const { tableName, typedValues, docId, timeout, signal } = options;
+    const records = getRawRecords(options.records, typedValues);
     if (records.length === 0) { return []; }
 
-    const callData: ITableData[] = chunk(records, this._chunkSize).map((recs) => makeTableData(recs));
-    console.log('------callData------', callData);
+    const results = await runChunks(chunk(records, this._chunkSize),
+      this._getChunkOptions(options, 'POST', `tables/${tableName}/data`),
+      (recs) => this._docCall(`tables/${tableName}/data`, makeTableData(recs), 'POST', undefined, docId,
+        { timeout, tableName, signal, keepInFlight: true }));
+    return flatten(results.map((rowIds) => rowIds || []));
+  }
 
-    const results: number[] = [];
-    for (const data of callData) {
-      const resp = await this._docCall(`tables/${tableName}/data`, data, 'POST', undefined, docId);
-      results.push(...(resp || []));
-    }
-    return results;
+  /**
+   * Applies user actions in a single request, so that they take effect together as one action
+   * (which is also undone as one), or not at all if any of them fails.
+   */
+  public async applyActions(options: ApplyActionsOptions): Promise<IApplyResult> {
+    const { actions, docId } = options;
+    const data = Array.isArray(actions) ? actions : actions.actions;
+    return await this._docCall('apply', data, 'POST', undefined, docId, options);
   }
 
   public async deleteRecords(options: DeleteRecordsOptions): Promise<void> {
-    const { tableName, recordIds, docId } = options;
-    for (const recIds of chunk(recordIds, this._chunkSize)) {
-      const data = [['BulkRemoveRecord', tableName, recIds]];
-      await this._docCall('apply', data, 'POST', undefined, docId);
-    }
+    const { tableName, recordIds, docId, timeout, signal } = options;
+    await runChunks(chunk(recordIds, this._chunkSize), this._getChunkOptions(options, 'POST', 'apply'),
+      (recIds) => this._docCall('apply', [['BulkRemoveRecord', tableName, recIds]], 'POST', undefined, docId,
+        { timeout, tableName, signal, keepInFlight: true }));
   }
 
   public async updateRecords(options: UpdateRecordsOptions): Promise<void> {
-    const { tableName, records, docId } = options;
+    const { tableName, typedValues, docId, timeout, signal } = options;
+    const records = getRawRecords(options.records, typedValues);
     const groups = new Map<string, IRecord[]>();
     for (const rec of records) {
       if (!rec.id || typeof rec.id !== 'number') {
@@ -584,134 +1383,422 @@ export class GristDocAPI {
       group.push(rec);
     }
 
-    const callData: ITableData[] = [];
+    const chunks: IRecord[][] = [];
     for (const groupRecords of groups.values()) {
-      callData.push(...chunk(groupRecords, this._chunkSize).map((recs) => makeTableData(recs)));
-    }
-
-    for (const data of callData) {
-      await this._docCall(`tables/${tableName}/data`, data, 'PATCH', undefined, docId);
+      chunks.push(...chunk(groupRecords, this._chunkSize));
     }
+    await runChunks(chunks, this._getChunkOptions(options, 'PATCH', `tables/${tableName}/data`),
+      (recs) => this._docCall(`tables/${tableName}/data`, makeTableData(recs), 'PATCH', undefined, docId,
+        { timeout, tableName, signal, keepInFlight: true }));
   }
 
-  public async syncTable(options: SyncTableOptions): Promise<{numAdded: number, numUpdated: number}> {
-    const { tableName, records, keyColIds, filters, docId } = options;
+  /**
+   * Adds and updates records so that Grist contains the given records, matching them to existing
+   * rows by the values of keyColIds. With `filters`, only rows (and records) matching the filters
+   * are considered. With `deleteMissing`, also deletes rows in scope whose keys are not among the
+   * records, so that the table mirrors them.
+   */
+  public async syncTable(options: SyncTableOptions): Promise<ISyncTableResult> {
+    const { tableName, keyColIds, filters, typedValues, deleteMissing, maxDeletePercent, docId } = options;
+    const { strategy, noadd, noupdate, onMany, signal, timeout } = options;
+    const records = getRawRecords(options.records, typedValues);
     if (filters && !Object.keys(filters).every((colId) => keyColIds.includes(colId))) {
       throw new Error("syncTable requires key columns to include all filter columns");
     }
 
+    if (strategy === 'server-upsert') {
+      if (deleteMissing) {
+        throw new Error("syncTable does not support deleteMissing with the 'server-upsert' strategy");
+      }
+      const upserts: IUpsertRecord[] = records
+        .filter((rec) => !filters || filterMatches(rec, filters))
+        .map((rec) => ({require: pick(rec, keyColIds), fields: omit(rec, keyColIds)}));
+      await this.addOrUpdateRecords({ tableName, records: upserts, onMany, noadd, noupdate, docId,
+        signal, timeout });
+      return {numAdded: 0, numUpdated: 0, numDeleted: 0, numUpserted: upserts.length};
+    }
+
     const gristRows = new Map<string, IRecord>();
+    const gristRowsById = new Map<number, IRecord>();
     // Use fetchTable with its own options structure
     const fetchedData = await this.fetchTable({
       tableName,
       filters,
-      docId
+      docId,
+      signal,
+      timeout,
     });
     for (const oldRec of fetchedData) {
       const key = makeKey(oldRec, keyColIds);
       gristRows.set(key, oldRec);
+      gristRowsById.set(oldRec.id as number, oldRec);
     }
 
     const updateList: IRecord[] = [];
     const addList: IRecord[] = [];
+    const newKeys = new Set<string>();
     for (const newRec of records) {
       if (filters && !filterMatches(newRec, filters)) {
         continue;
       }
       const key = makeKey(newRec, keyColIds);
+      newKeys.add(key);
       const oldRec = gristRows.get(key);
       if (oldRec) {
+        if (noupdate) { continue; }
         const changedKeys = Object.keys(newRec).filter((colId) => !isEqual(newRec[colId], oldRec[colId]));
         if (changedKeys.length > 0) {
           const update: IRecord = pick(newRec, changedKeys);
           update.id = oldRec.id;
           updateList.push(update);
         }
-      } else {
+      } else if (!noadd) {
         addList.push(newRec);
       }
     }
 
-    // Use updateRecords and addRecords with their own options structures
-    await this.updateRecords({ tableName, records: updateList, docId });
-    await this.addRecords({ tableName, records: addList, docId });
-    return {numAdded: addList.length, numUpdated: updateList.length};
+    const deleteList: IRecord[] = deleteMissing ?
+      fetchedData.filter((oldRec) => !newKeys.has(makeKey(oldRec, keyColIds))) : [];
+    if (maxDeletePercent !== undefined && deleteList.length > 0 &&
+        deleteList.length * 100 > maxDeletePercent * fetchedData.length) {
+      const percent = (deleteList.length * 100 / fetchedData.length).toFixed(1);
+      throw new Error(`syncTable would delete ${deleteList.length} of ${fetchedData.length} rows ` +
+        `(${percent}%), more than maxDeletePercent of ${maxDeletePercent}%`);
+    }
+
+    if (this._dryrun) {
+      const resolvedDocId = this._resolveDocId(docId);
+      const getKeyValues = (rec: IRecord) => keyColIds.map((colId) => rec[colId]);
+      this._dryRunPlan.push({
+        endpoint: `docs/${resolvedDocId}/tables/${tableName}`,
+        docId: resolvedDocId,
+        tableName,
+        action: 'SyncTable',
+        keysToAdd: addList.map(getKeyValues),
+        keysToUpdate: updateList.map((rec) => getKeyValues(gristRowsById.get(rec.id as number)!)),
+        ...(deleteMissing ? {keysToDelete: deleteList.map(getKeyValues)} : {}),
+      });
+    }
+
+    // Changes are sent in phases, each in chunks. If one fails, the error reports the rows
+    // committed by each phase, including those in chunks of the failed phase that succeeded.
+    const committed: ISyncTableResult = {numAdded: 0, numUpdated: 0, numDeleted: 0};
+    let phase: 'numUpdated' | 'numAdded' | 'numDeleted' = 'numUpdated';
+    try {
+      await this.updateRecords({ tableName, records: updateList, docId, signal, timeout });
+      committed.numUpdated = updateList.length;
+      phase = 'numAdded';
+      await this.addRecords({ tableName, records: addList, docId, signal, timeout });
+      committed.numAdded = addList.length;
+      phase = 'numDeleted';
+      if (deleteList.length > 0) {
+        const recordIds = deleteList.map((rec) => rec.id as number);
+        await this.deleteRecords({ tableName, recordIds, docId, signal, timeout });
+      }
+      committed.numDeleted = deleteList.length;
+    } catch (err) {
+      if (err instanceof GristApiError) {
+        committed[phase] = err.rowsCommitted || 0;
+        err.syncCommitted = committed;
+      }
+      throw err;
+    }
+    return committed;
+  }
+
+  /**
+   * Sends records to Grist's add-or-update endpoint, in chunks. For each record, rows matching
+   * its `require` values are updated with its `fields`; if there are none, a row is added.
+   */
+  public async addOrUpdateRecords(options: AddOrUpdateRecordsOptions): Promise<void> {
+    const { tableName, records, onMany, noadd, noupdate, docId, timeout, signal } = options;
+    const query = new URLSearchParams();
+    if (onMany) { query.set('onmany', onMany); }
+    if (noadd) { query.set('noadd', 'true'); }
+    if (noupdate) { query.set('noupdate', 'true'); }
+    const queryStr = query.toString() ? `?${query.toString()}` : '';
+    // Chunks are sent one at a time, since records in different chunks may match the same rows.
+    await runChunks(chunk(records, this._chunkSize),
+      this._getChunkOptions({...options, concurrency: 1}, 'PUT', `tables/${tableName}/records`),
+      (recs) => this._docCall(`tables/${tableName}/records${queryStr}`, { records: recs }, 'PUT', undefined, docId,
+        { timeout, tableName, signal, keepInFlight: true }));
+  }
+
+  /**
+   * Lists the document's access rules, in the order in which Grist checks them. Requires owner
+   * access.
+   */
+  public async listAccessRules(options: ListAccessRulesOptions = {}): Promise<IAccessRule[]> {
+    return parseAccessRules(await this._fetchAccessRulesData(options));
+  }
+
+  /**
+   * Adds access rules, returning their ids. A rule with an aclFormula is placed after existing
+   * rules for the same table and columns, but before their default rule.
+   */
+  public async addAccessRules(options: AddAccessRulesOptions): Promise<number[]> {
+    const { rules, docId, signal, timeout } = options;
+    const batch = planAccessRuleChanges(await this._fetchAccessRulesData(options), {add: rules});
+    const result = await this.applyActions({ actions: batch, docId, signal, timeout });
+    const index = batch.actions.findIndex((a) => a[0] === 'BulkAddRecord' && a[1] === '_grist_ACLRules');
+    return result?.retValues?.[index] || [];
+  }
+
+  public async updateAccessRules(options: UpdateAccessRulesOptions): Promise<void> {
+    const { rules, docId, signal, timeout } = options;
+    const batch = planAccessRuleChanges(await this._fetchAccessRulesData(options), {update: rules});
+    await this.applyActions({ actions: batch, docId, signal, timeout });
+  }
+
+  public async removeAccessRules(options: RemoveAccessRulesOptions): Promise<void> {
+    const { ruleIds, docId, signal, timeout } = options;
+    const batch = planAccessRuleChanges(await this._fetchAccessRulesData(options), {remove: ruleIds});
+    await this.applyActions({ actions: batch, docId, signal, timeout });
+  }
+
+  /**
+   * Makes the document's access rules match the given list exactly, adding, updating and removing
+   * rules as needed in a single action. Existing rules are matched by table, columns and
+   * aclFormula. Rules defining user attributes are left alone.
+   */
+  public async ensureAccessRules(options: EnsureAccessRulesOptions): Promise<IEnsureAccessRulesResult> {
+    const { rules, docId, signal, timeout } = options;
+    const data = await this._fetchAccessRulesData(options);
+    const { changes, result } = planEnsureAccessRules(data, rules);
+    const batch = planAccessRuleChanges(data, changes);
+    if (batch.length > 0) {
+      await this.applyActions({ actions: batch, docId, signal, timeout });
+    }
+    return result;
+  }
+
+  public async listWebhooks(options: ListWebhooksOptions = {}): Promise<IWebhook[]> {
+    const { docId } = options;
+    const resp = await this._docCall('webhooks', undefined, 'GET', undefined, docId, options);
+    return resp.webhooks;
   }
 
+  /**
+   * Adds webhooks to the document, returning their ids. Use WebhookReceiver to handle the
+   * requests Grist sends to them.
+   */
+  public async addWebhooks(options: AddWebhooksOptions): Promise<string[]> {
+    const { webhooks, docId } = options;
+    const data = { webhooks: webhooks.map((fields) => ({ fields })) };
+    const resp = await this._docCall('webhooks', data, 'POST', undefined, docId, options);
+    return (resp?.webhooks || []).map((webhook: {id: string}) => webhook.id);
+  }
+
+  public async updateWebhook(options: UpdateWebhookOptions): Promise<void> {
+    const { webhookId, fields, docId } = options;
+    await this._docCall(`webhooks/${webhookId}`, fields, 'PATCH', undefined, docId, options);
+  }
+
+  public async deleteWebhook(options: DeleteWebhookOptions): Promise<void> {
+    const { webhookId, docId } = options;
+    await this._docCall(`webhooks/${webhookId}`, undefined, 'DELETE', undefined, docId, options);
+  }
+
+  /**
+   * Discards pending deliveries of all of the document's webhooks, or only of the given one.
+   */
+  public async clearWebhookQueue(options: ClearWebhookQueueOptions = {}): Promise<void> {
+    const { webhookId, docId } = options;
+    const url = webhookId ? `webhooks/queue/${webhookId}` : 'webhooks/queue';
+    await this._docCall(url, undefined, 'DELETE', undefined, docId, options);
+  }
+
+  /**
+   * Uploads files as attachments, returning their ids. To place them in an Attachments cell, set
+   * the cell to makeAttachmentsCell(ids).
+   */
   public async attach(options: AttachOptions): Promise<number[]> {
     const { files, docId } = options;
+    if (isNodeEnvironment()) {
+      // The form data streams the files, so can only be sent once; it's rebuilt for any retry,
+      // unless it includes streams given by the caller, which can't be read again.
+      const hasStreams = files.some((f) => typeof f === 'object' && 'data' in f && !Buffer.isBuffer(f.data));
+      const makeData = hasStreams ? undefined : () => makeNodeFormData(files);
+      const nodeFormData = await makeNodeFormData(files);
+      return await this._docCall('attach', nodeFormData, 'POST', undefined, docId, {...options, makeData});
+    }
     const formData = new FormData();
     for (const file of files) {
+      if (!isFile(file)) {
+        throw new Error('In browser environment, attachments must be File objects');
+      }
       formData.append('upload', file);
     }
-    return await this._docCall('attach', formData, 'POST', undefined, docId);
+    return await this._docCall('attach', formData, 'POST', undefined, docId, options);
+  }
+
+  public async listAttachments(options: ListAttachmentsOptions = {}): Promise<IAttachmentMetadata[]> {
+    const { filters, sort, limit, docId } = options;
+    const params = new URLSearchParams();
+    if (filters) { params.set('filter', JSON.stringify(filters)); }
+    if (sort !== undefined) { params.set('sort', makeSortParam(sort)); }
+    if (limit !== undefined) { params.set('limit', String(limit)); }
+    const queryStr = params.toString() ? `?${params.toString()}` : '';
+    const resp = await this._docCall(`attachments${queryStr}`, undefined, 'GET', undefined, docId, options);
+    return resp.records.map((rec: {id: number, fields: object}) => ({id: rec.id, ...rec.fields}));
   }
 
-  private async _docCall(docRelUrl: string, data?: object|FormData, method?: Method, responseType?: ResponseType, docId?: string) {
+  /**
+   * Downloads the content of an attachment, as a Buffer in Node or an ArrayBuffer in browsers, or
+   * as a stream if `stream` is set.
+   */
+  public downloadAttachment(options: DownloadAttachmentOptions & {stream: true}): Promise<NodeJS.ReadableStream>;
+  public downloadAttachment(options: DownloadAttachmentOptions): Promise<Buffer | ArrayBuffer>;
+  public async downloadAttachment(options: DownloadAttachmentOptions):
+      Promise<Buffer | ArrayBuffer | NodeJS.ReadableStream> {
+    const { attachmentId, stream, docId } = options;
+    const responseType: ResponseType = stream ? 'stream' : 'arraybuffer';
+    const data = await this._docCall(`attachments/${attachmentId}/download`, undefined, 'GET', responseType, docId,
+      options);
+    return (stream || !isNodeEnvironment()) ? data : Buffer.from(data);
+  }
+
+  private async _fetchAccessRulesData(options: ListAccessRulesOptions): Promise<IAccessRulesData> {
+    const { docId, signal, timeout } = options;
+    const resources = await this.fetchTable({ tableName: '_grist_ACLResources', docId, signal, timeout });
+    const rules = await this.fetchTable({ tableName: '_grist_ACLRules', docId, signal, timeout });
+    return { resources, rules };
+  }
+
+  private async _docCall(docRelUrl: string, data?: object|FormData, method?: Method, responseType?: ResponseType,
+                         docId?: string, callOptions?: IInternalCallOptions) {
     const resolvedDocId = this._resolveDocId(docId);
     const url = `docs/${resolvedDocId}/${docRelUrl}`.replace(/\/+$/, '');
-    console.log('------url------', url);
-    console.log('------data------', data);
-    return await this._call(url, data, method, responseType);
+    return await this._call(url, data, method, responseType, callOptions);
   }
 
-  private async _call(url: string, data?: object|FormData, method?: Method, responseType?: ResponseType) {
-    if (!this._apiKey) {
-      this._apiKey = await getAPIKey();
-    }
+  private _getChunkOptions(options: ChunkedCallOptions & {tableName: string, docId?: string},
+                           method: Method, docRelUrl: string): IRunChunksOptions {
+    const { tableName, onProgress, signal } = options;
+    const docId = this._resolveDocId(options.docId);
+    return {
+      concurrency: options.concurrency || this._concurrency, onProgress, signal,
+      request: { method, url: `docs/${docId}/${docRelUrl}`, docId, tableName },
+    };
+  }
+
+  /**
+   * Makes a GET call whose result may be cached, per server. Since the result may be shared with
+   * other calls, the signal in callOptions is only checked before the call. Returns a copy of the
+   * result, so that callers may modify it without affecting the cache.
+   */
+  private async _cachedCall(url: string, callOptions: CallOptions = {}): Promise<any> {
+    const { signal, timeout } = callOptions;
+    if (signal?.aborted) { throw new AbortError(`Aborted GET ${url}`, {method: 'GET', url}); }
+    const result = await this._siteCache.get(`${this._server}/${url}`,
+      () => this._call(url, undefined, 'GET', undefined, { timeout }));
+    return cloneDeep(result);
+  }
+
+  private async _getAuthHeaders(server: string): Promise<IAuthHeaders> {
+    const headers = await this._credentials.getHeaders(server);
+    if (!headers) { throw new Error(`No Grist credentials found for ${server}`); }
+    return headers;
+  }
+
+  private async _call(url: string, data?: object|FormData, method?: Method, responseType?: ResponseType,
+                      callOptions: IInternalCallOptions = {}) {
+    const { signal, timeout = this._timeout, tableName, makeData, keepInFlight } = callOptions;
+    const server = this._server;
+    const getHeaders = async () => ({
+      ...await this._getAuthHeaders(server),
+      // Node form data (used for attachments) supplies its own multipart Content-Type.
+      ...(isNodeFormData(data) ? data.getHeaders() : {}),
+    });
     method = method || (data ? 'POST' : 'GET');
     const config: AxiosRequestConfig = {
       method,
-      url: `${this._server}/${url}`.replace(/\/+$/, ''),
-      headers: {
-        'Authorization': `Bearer ${this._apiKey}`,
-      },
+      url: `${server}/${url}`.replace(/\/+$/, ''),
+      headers: await getHeaders(),
       data,
       responseType,
+      timeout,
     };
-    // console.log('------config------', config, this);
-    if (this._dryrun && method !== 'GET') {
+    if (this._dryrun && method !== 'GET' && !isReadOnlyEndpoint(url)) {
+      const entries = describeRequest(method, url, data);
+      this._logger.info(`DRYRUN: skipping ${method} ${url}: ${entries.map((e) => e.action).join(', ')}`);
+      this._dryRunPlan.push(...entries);
       return;
     }
+    const idempotent = isIdempotentMethod(method) || isReadOnlyEndpoint(url);
+    const payloadSize = getPayloadSize(data);
+    const cancelSource = (signal && !keepInFlight) ? axios.CancelToken.source() : null;
+    const onAbort = () => cancelSource!.cancel(`Aborted ${method} ${url}`);
+    if (cancelSource) {
+      config.cancelToken = cancelSource.token;
+      signal!.addEventListener('abort', onAbort);
+    }
+    let reauthenticated = false;
     try {
-      const resp = await axios(config);
-      // console.log('------resp------', resp);
-      return resp.data;
-    } catch (err) {
-      const axiosError = err as AxiosError;
-      // console.log('------axiosError------', axiosError);
-      if (axiosError.response?.data && typeof axiosError.response.data === 'object' && 'error' in axiosError.response.data) {
-        throw new Error(`Grist API error: ${axiosError.response.data.error}`);
+      for (let attempt = 1; ; attempt++) {
+        if (signal?.aborted) { throw new AbortError(`Aborted ${method} ${url}`, {method, url, tableName}); }
+        if (attempt > 1 && makeData) {
+          data = config.data = await makeData();
+          // Node form data comes with a new boundary, so a new Content-Type.
+          if (isNodeFormData(data)) { Object.assign(config.headers, data.getHeaders()); }
+        }
+        const info: IRequestInfo = {method, url: config.url!, attempt, payloadSize};
+        this._logger.debug(`${method} ${url}` + (payloadSize === undefined ? '' : ` (${payloadSize} bytes)`));
+        this._hooks.onRequest?.(info);
+        const start = Date.now();
+        try {
+          const resp = await axios(config);
+          const contentLength = resp.headers?.['content-length'];
+          this._hooks.onResponse?.({
+            ...info,
+            status: resp.status,
+            durationMs: Date.now() - start,
+            responseSize: contentLength ? parseInt(contentLength, 10) : undefined,
+          });
+          return resp.data;
+        } catch (err) {
+          const status: number|undefined = err.response?.status;
+          this._hooks.onError?.({...info, error: err, status, durationMs: Date.now() - start});
+          // A body that can only be sent once can't be sent again, unless it can be rebuilt.
+          const canResend = !isNodeFormData(data) || Boolean(makeData);
+          if (status === 401 && this._credentials.invalidate && !reauthenticated && canResend) {
+            // Credentials may have expired, so try once more with fresh ones.
+            this._logger.warn(`${method} ${url} failed (${err.message}); retrying with new credentials`);
+            this._credentials.invalidate(server);
+            config.headers = await getHeaders();
+            reauthenticated = true;
+            continue;
+          }
+          const retryDelay = (this._retry && canResend && !axios.isCancel(err)) ?
+            getRetryDelay(err, this._retry, attempt, idempotent) : null;
+          if (retryDelay === null) {
+            this._logger.error(`${method} ${url} failed: ${err.message}`);
+            throw ((err as AxiosError).isAxiosError || axios.isCancel(err)) ?
+              makeGristApiError(err, {method, url, tableName, idempotent}) : err;
+          }
+          this._logger.warn(`${method} ${url} failed (${err.message}); retrying in ${Math.round(retryDelay)}ms`);
+          // If aborted while waiting, the check at the top of the loop throws an AbortError.
+          await delay(retryDelay, signal);
+        }
       }
-      throw err;
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+      if (method !== 'GET' && isSiteEndpoint(url)) { this._siteCache.clear(); }
     }
   }
 }
 
-/**
- * Returns a human-readable summary of the given ITableData object (dict mapping column name to
- * list of values).
- */
-// function descColValues(data: ITableData): string {
-//   const keys = Object.keys(data);
-//   const numRows = keys.length > 0 ? data[keys[0]].length : 0;
-//   const columns = keys.sort().join(', ');
-//   return `${numRows} rows, cols (${columns})`;
-// }
-
 /**
  * Converts an array of records into a column-oriented ITableData object.
  */
-function makeTableData(records: IRecord[]): ITableData {
-  console.log('------makeTableData------', records);
+export function makeTableData(records: IRecord[]): ITableData {
   const allKeys = new Set<string>();
   for (const rec of records) {
     for (const key of Object.keys(rec)) {
       allKeys.add(key);
     }
   }
-  console.log('------allKeys------', allKeys);
-  
+
   // Create an object directly instead of using mapValues
   const result: Record<string, any[]> = {};
   Array.from(allKeys).forEach(key => {
@@ -722,6 +1809,165 @@ function makeTableData(records: IRecord[]): ITableData {
 }
 
 
+/**
+ * Converts a SortSpec into the value of the `sort` parameter of the records endpoint, e.g.
+ * "-Date,Name:naturalSort;emptyFirst".
+ */
+function makeSortParam(sort: SortSpec): string {
+  if (typeof sort === 'string') { return sort; }
+  return sort.map((spec) => {
+    if (typeof spec === 'string') { return spec; }
+    const flags: string[] = [];
+    if (spec.naturalSort) { flags.push('naturalSort'); }
+    if (spec.emptyFirst) { flags.push('emptyFirst'); }
+    if (spec.orderByChoice) { flags.push('orderByChoice'); }
+    const flagStr = flags.length ? `:${flags.join(';')}` : '';
+    return `${spec.descending ? '-' : ''}${spec.colId}${flagStr}`;
+  }).join(',');
+}
+
+/**
+ * Checks if the url is for an endpoint that uses POST without modifying anything, and so may be
+ * called in dryrun mode.
+ */
+function isReadOnlyEndpoint(url: string): boolean {
+  return /^docs\/[^\/]+\/sql$/.test(url);
+}
+
+/**
+ * Checks if the url is for an endpoint whose changes may affect listings of orgs and workspaces.
+ */
+function isSiteEndpoint(url: string): boolean {
+  return /^(orgs|workspaces)\b/.test(url) || /^docs\/[^\/]+(\/(move|copy|fork|replace))?$/.test(url);
+}
+
+/**
+ * Returns records as they should be sent to Grist, encoding typed values if typedValues is set.
+ */
+function getRawRecords(records: IRecord[] | ITypedRecord[], typedValues?: boolean): IRecord[] {
+  return typedValues ? (records as ITypedRecord[]).map(encodeRecord) : records as IRecord[];
+}
+
+// Options for _call, adding details of the request to those callers may give.
+interface IInternalCallOptions extends CallOptions {
+  // Table the request is about, for errors, when its URL doesn't include it.
+  tableName?: string;
+  // Builds the request body anew for each attempt after the first, for bodies that can only be
+  // sent once, such as Node form data.
+  makeData?: () => Promise<object>;
+  // If set, aborting the signal doesn't cancel a request in flight, but only stops the call before
+  // any further attempt, including while waiting to retry. Used for chunks, so that those sent are
+  // allowed to finish, and rowsCommitted stays accurate.
+  keepInFlight?: boolean;
+}
+
+interface IRunChunksOptions extends ChunkedCallOptions {
+  // Describes the requests that send the chunks, for the error thrown if aborted.
+  request: IGristApiErrorInfo;
+}
+
+/**
+ * Sends chunks using up to `concurrency` parallel calls to `send`, returning the results in the
+ * order of chunks. If any call fails, or `signal` is aborted, no more chunks are started, and once
+ * calls in progress finish, the first error is thrown, annotated with its chunk and the number of
+ * rows committed.
+ */
+async function runChunks<T, R>(chunks: T[][], options: IRunChunksOptions,
+                               send: (chunk: T[]) => Promise<R>): Promise<R[]> {
+  const { concurrency = 1, onProgress, signal, request } = options;
+  const results: R[] = [];
+  const progress: IChunkProgress = {
+    chunksDone: 0,
+    totalChunks: chunks.length,
+    rowsDone: 0,
+    totalRows: chunks.reduce((sum, c) => sum + c.length, 0),
+  };
+  let next = 0;
+  let error = null as Error | null;
+  const runWorker = async () => {
+    while (next < chunks.length && !error) {
+      const index = next++;
+      if (signal?.aborted) {
+        const abortError = new AbortError(`Aborted before chunk ${index + 1} of ${chunks.length}`, request);
+        abortError.chunkIndex = index;
+        error = error || abortError;
+        return;
+      }
+      try {
+        results[index] = await send(chunks[index]);
+      } catch (err) {
+        if (!error && err instanceof GristApiError) { err.chunkIndex = index; }
+        error = error || err;
+        return;
+      }
+      progress.chunksDone++;
+      progress.rowsDone += chunks[index].length;
+      onProgress?.({...progress});
+    }
+  };
+  await Promise.all(Array.from({length: Math.min(concurrency, chunks.length)}, runWorker));
+  if (error) {
+    if (error instanceof GristApiError) { error.rowsCommitted = progress.rowsDone; }
+    throw error;
+  }
+  return results;
+}
+
+/**
+ * Returns the size in bytes of the JSON encoding of a request body, or undefined if there is no
+ * body, or it isn't sent as JSON.
+ */
+function getPayloadSize(data?: object|FormData): number|undefined {
+  if (!data || isNodeFormData(data) || (typeof FormData !== 'undefined' && data instanceof FormData)) {
+    return undefined;
+  }
+  const json = JSON.stringify(data);
+  return typeof Buffer !== 'undefined' ? Buffer.byteLength(json) : new TextEncoder().encode(json).length;
+}
+
+/**
+ * Returns the value for an Attachments cell containing the given attachment ids.
+ */
+export function makeAttachmentsCell(attachmentIds: number[]): CellValue {
+  return ['L', ...attachmentIds];
+}
+
+function isNodeEnvironment(): boolean {
+  return typeof process !== 'undefined' && Boolean(process.versions?.node);
+}
+
+function isFile(file: AttachmentSource): file is File {
+  return typeof File !== 'undefined' && file instanceof File;
+}
+
+function isNodeFormData(data: any): data is NodeFormData {
+  return Boolean(data) && typeof data.getHeaders === 'function' && typeof data.pipe === 'function';
+}
+
+/**
+ * Creates multipart form data, using the form-data module, to upload the given files in Node.
+ */
+async function makeNodeFormData(files: AttachmentSource[]): Promise<NodeFormData> {
+  const FormDataClass: typeof NodeFormData = require('form-data');
+  const fse: typeof FsExtra = require('fs-extra');
+  const path = require('path');
+  const formData = new FormDataClass();
+  for (const file of files) {
+    if (typeof file === 'string') {
+      formData.append('upload', fse.createReadStream(file), {filename: path.basename(file)});
+    } else if (isFile(file)) {
+      const data = Buffer.from(await file.arrayBuffer());
+      formData.append('upload', data, {filename: file.name, contentType: file.type || undefined});
+    } else if ('path' in file) {
+      const filename = file.filename || path.basename(file.path);
+      formData.append('upload', fse.createReadStream(file.path), {filename, contentType: file.contentType});
+    } else {
+      formData.append('upload', file.data, {filename: file.filename, contentType: file.contentType});
+    }
+  }
+  return formData;
+}
+
 function makeKey(rec: IRecord, keyColumns: string[]): string {
   return JSON.stringify(keyColumns.map((col) => rec[col]));
 }
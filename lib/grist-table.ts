@@ -0,0 +1,143 @@
+/**
+ * Table handles with records typed by column, as returned by GristDocAPI.table().
+ *
+ * The interfaces describing tables may be written by hand, or generated from a document's schema
+ * using generateTableTypes().
+ */
+import {CallOptions, ChunkedCallOptions, GristDocAPI, IFilterSpec, IRecord, ISortSpec, ISyncTableResult, OnManyOption,
+        SyncStrategy} from './grist-api';
+
+// Column ids of a table's record type.
+export type ColId<TRecord> = keyof TRecord & string;
+
+// Record as fetched from Grist, including its row id.
+export type FetchedRecord<TRecord> = TRecord & {id: number};
+
+// Record with its row id, for updating.
+export type RecordUpdate<TRecord> = Partial<TRecord> & {id: number};
+
+// Maps colIds to the set of values to include when filtering.
+export type TableFilterSpec<TRecord> = {[K in ColId<TRecord>]?: Array<TRecord[K]>};
+
+export interface ITableSortSpec<TRecord> extends ISortSpec {
+  colId: ColId<TRecord>;
+}
+
+export interface TableFetchOptions<TRecord> extends CallOptions {
+  filters?: TableFilterSpec<TRecord>;
+  // Columns to sort by; use ITableSortSpec objects for descending order or other sort flags.
+  sort?: Array<ColId<TRecord> | ITableSortSpec<TRecord>>;
+  limit?: number;
+}
+
+export interface TableSyncOptions<TRecord> extends CallOptions {
+  filters?: TableFilterSpec<TRecord>;
+  deleteMissing?: boolean;
+  maxDeletePercent?: number;
+  strategy?: SyncStrategy;
+  noadd?: boolean;
+  noupdate?: boolean;
+  onMany?: OnManyOption;
+}
+
+/**
+ * Handle to a single table of a document, whose methods check column ids and value types against
+ * the TRecord interface at compile time. The handle is tied to the doc that was current when it
+ * was created, or the docId given to GristDocAPI.table().
+ */
+export class GristTable<TRecord extends object = IRecord> {
+  constructor(private _api: GristDocAPI, public readonly tableName: string, private _docId?: string) {}
+
+  public async fetch(options: TableFetchOptions<TRecord> = {}): Promise<Array<FetchedRecord<TRecord>>> {
+    const { filters, sort, limit, signal, timeout } = options;
+    const records = await this._api.fetchTable({
+      tableName: this.tableName,
+      filters: filters as IFilterSpec | undefined,
+      sort,
+      limit,
+      docId: this._docId,
+      signal,
+      timeout,
+    });
+    return records as unknown as Array<FetchedRecord<TRecord>>;
+  }
+
+  public async add(records: Array<Partial<TRecord>>, options: ChunkedCallOptions = {}): Promise<number[]> {
+    return await this._api.addRecords({
+      ...options,
+      tableName: this.tableName,
+      records: records as unknown as IRecord[],
+      docId: this._docId,
+    });
+  }
+
+  public async update(records: Array<RecordUpdate<TRecord>>, options: ChunkedCallOptions = {}): Promise<void> {
+    await this._api.updateRecords({
+      ...options,
+      tableName: this.tableName,
+      records: records as unknown as IRecord[],
+      docId: this._docId,
+    });
+  }
+
+  public async sync(records: Array<Partial<TRecord>>, keyColIds: Array<ColId<TRecord>>,
+                    options: TableSyncOptions<TRecord> = {}): Promise<ISyncTableResult> {
+    const { filters, ...syncOptions } = options;
+    return await this._api.syncTable({
+      ...syncOptions,
+      tableName: this.tableName,
+      records: records as unknown as IRecord[],
+      keyColIds,
+      filters: filters as IFilterSpec | undefined,
+      docId: this._docId,
+    });
+  }
+}
+
+// Value type, as TypeScript source, for each simple Grist column type.
+const columnTypes: {[gristType: string]: string} = {
+  Text: 'string',
+  Choice: 'string',
+  Numeric: 'number',
+  Int: 'number',
+  Bool: 'boolean',
+  Date: 'number',
+  DateTime: 'number',
+  Ref: 'number',
+  RefList: "['L', ...number[]]",
+  ChoiceList: "['L', ...string[]]",
+  Attachments: "['L', ...number[]]",
+};
+
+/**
+ * Returns the TypeScript type for values of the given Grist column type, e.g. 'Ref:People'.
+ */
+export function getColumnValueType(gristType: string | undefined): string {
+  const valueType = columnTypes[(gristType || '').split(':')[0]];
+  return valueType ? `${valueType} | null` : 'CellValue';
+}
+
+/**
+ * Generates TypeScript source with an interface for each table of the document, for use with
+ * GristDocAPI.table(). Values are typed as Grist returns them without typedValues: dates as
+ * timestamps in seconds, references as row ids, and lists as ['L', ...] arrays.
+ */
+export async function generateTableTypes(api: GristDocAPI, options: {docId?: string} = {}): Promise<string> {
+  const { docId } = options;
+  const tables = await api.listTables({ docId });
+  const lines: string[] = [];
+  for (const table of tables) {
+    const columns = await api.listColumns({ tableId: table.id, docId });
+    lines.push('', `export interface ${table.id} {`);
+    for (const col of columns) {
+      const comment = col.fields.isFormula ? '  // formula' : '';
+      lines.push(`  ${col.id}: ${getColumnValueType(col.fields.type)};${comment}`);
+    }
+    lines.push('}');
+  }
+  const header = [`// Generated by grist-api from the schema of document ${docId ?? api.docId}.`];
+  if (lines.some((line) => line.includes('CellValue'))) {
+    header.push(`import {CellValue} from 'grist-api';`);
+  }
+  return [...header, ...lines].join('\n') + '\n';
+}
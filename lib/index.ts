@@ -1 +1,13 @@
 export * from './grist-api';
+export * from './access-rules';
+export * from './cell-values';
+export * from './grist-table';
+export {IRetryPolicy} from './retry';
+export * from './logger';
+export * from './dry-run';
+export * from './errors';
+export * from './doc-history';
+export * from './webhook-receiver';
+export * from './fake-server';
+export * from './user-actions';
+export * from './credentials';
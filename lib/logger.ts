@@ -0,0 +1,28 @@
+/**
+ * Logging for grist-api. By default, messages go to the "debug" module under the "grist-api"
+ * namespace, so are only shown when enabled, e.g. with DEBUG=grist-api:* in the environment.
+ */
+// tslint:disable-next-line:no-reference
+/// <reference path="./types.d.ts" />
+import debug = require('debug');
+
+// Logger which may be supplied via the `logger` option of IGristCallConfig, e.g. `console`.
+export interface ILogger {
+  debug(message: string, ...args: any[]): void;
+  info(message: string, ...args: any[]): void;
+  warn(message: string, ...args: any[]): void;
+  error(message: string, ...args: any[]): void;
+}
+
+/**
+ * Creates a logger that sends messages of each level to the "debug" module, under namespaces
+ * like "grist-api:warn".
+ */
+export function makeDebugLogger(namespace: string = 'grist-api'): ILogger {
+  return {
+    debug: debug(`${namespace}:debug`),
+    info: debug(`${namespace}:info`),
+    warn: debug(`${namespace}:warn`),
+    error: debug(`${namespace}:error`),
+  };
+}
@@ -0,0 +1,93 @@
+/**
+ * Retry policy for calls to the Grist API.
+ */
+import {AxiosError, Method} from 'axios';
+
+// Settings for retrying failed requests, set via the `retry` option of IGristCallConfig.
+export interface IRetryPolicy {
+  // Total number of attempts, including the first one. Defaults to 3.
+  maxAttempts?: number;
+  // Delay before the first retry, doubled for each retry after that. Defaults to 500ms.
+  initialDelayMs?: number;
+  // Upper limit on any delay, including one requested by a Retry-After header. Defaults to 30s.
+  maxDelayMs?: number;
+  // HTTP statuses that are worth retrying. Defaults to 429, 502, 503 and 504.
+  retryStatuses?: number[];
+}
+
+const defaultPolicy: Required<IRetryPolicy> = {
+  maxAttempts: 3,
+  initialDelayMs: 500,
+  maxDelayMs: 30000,
+  retryStatuses: [429, 502, 503, 504],
+};
+
+// Network errors that happen before a request is sent, so are safe to retry for any method.
+const notSentErrorCodes = new Set(['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'EHOSTUNREACH', 'ENETUNREACH']);
+
+// Network errors after which a request may or may not have reached the server.
+const transientErrorCodes = new Set(['ECONNRESET', 'ETIMEDOUT', 'ECONNABORTED', 'EPIPE']);
+
+// Methods which may be repeated without changing the result.
+const idempotentMethods = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+
+export function isIdempotentMethod(method: Method): boolean {
+  return idempotentMethods.has(method.toUpperCase());
+}
+
+/**
+ * Returns how long to wait before retrying a request that failed with the given error, or null if
+ * it should not be retried. Requests that are not idempotent are only retried if they were never
+ * processed: when the connection couldn't be made, or when the server rate-limited them with 429.
+ */
+export function getRetryDelay(err: AxiosError, policy: IRetryPolicy, attempt: number,
+                              idempotent: boolean): number|null {
+  const {maxAttempts, initialDelayMs, maxDelayMs, retryStatuses} = {...defaultPolicy, ...policy};
+  if (attempt >= maxAttempts || !isRetryableError(err, idempotent, retryStatuses)) { return null; }
+
+  const retryAfterMs = parseRetryAfter(err.response?.headers?.['retry-after']);
+  if (retryAfterMs !== null) {
+    return Math.min(retryAfterMs, maxDelayMs);
+  }
+  // Exponential backoff with "equal jitter": wait between half and all of the backoff delay.
+  const backoffMs = Math.min(initialDelayMs * Math.pow(2, attempt - 1), maxDelayMs);
+  return backoffMs / 2 + Math.random() * backoffMs / 2;
+}
+
+/**
+ * Returns whether a request that failed with the given error may succeed if repeated, and is safe
+ * to repeat; see getRetryDelay.
+ */
+export function isRetryableError(err: AxiosError, idempotent: boolean,
+                                 retryStatuses: number[] = defaultPolicy.retryStatuses): boolean {
+  const status = err.response?.status;
+  if (status !== undefined) {
+    return retryStatuses.includes(status) && (idempotent || status === 429);
+  }
+  const code = err.code || '';
+  return notSentErrorCodes.has(code) || (idempotent && transientErrorCodes.has(code));
+}
+
+/**
+ * Parses the value of a Retry-After header, which may be a number of seconds or an HTTP date,
+ * into milliseconds. Returns null if the header is missing or invalid.
+ */
+export function parseRetryAfter(value: string|undefined): number|null {
+  if (!value) { return null; }
+  if (/^\s*\d+\s*$/.test(value)) { return parseInt(value, 10) * 1000; }
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Waits for msec, or until signal is aborted. It doesn't throw on abort, leaving it to the caller
+ * to check the signal, and throw an error that describes what was aborted.
+ */
+export function delay(msec: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) { return resolve(); }
+    const onAbort = () => { clearTimeout(timer); resolve(); };
+    const timer = setTimeout(() => { signal?.removeEventListener('abort', onAbort); resolve(); }, msec);
+    signal?.addEventListener('abort', onAbort);
+  });
+}
@@ -0,0 +1,27 @@
+/**
+ * Cache of asynchronously fetched values, each kept for a fixed time. Concurrent requests for a
+ * key share a single fetch; failed fetches are not cached.
+ */
+export class TtlCache<T> {
+  private _entries = new Map<string, {expiresAt: number, value: Promise<T>}>();
+
+  // A ttlMs of 0 disables caching.
+  constructor(private _ttlMs: number) {}
+
+  public get(key: string, fetch: () => Promise<T>): Promise<T> {
+    const entry = this._entries.get(key);
+    if (entry && entry.expiresAt > Date.now()) { return entry.value; }
+    const value = fetch();
+    if (this._ttlMs > 0) {
+      this._entries.set(key, {expiresAt: Date.now() + this._ttlMs, value});
+      value.catch(() => {
+        if (this._entries.get(key)?.value === value) { this._entries.delete(key); }
+      });
+    }
+    return value;
+  }
+
+  public clear(): void {
+    this._entries.clear();
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Builder for batches of Grist user actions, to send with GristDocAPI.applyActions(). All actions
+ * of a batch are applied together, as a single action that can be undone as a whole; if any of
+ * them fails, none are applied.
+ */
+import {IColumnFields, IColumnSpec, IRecord, makeTableData} from './grist-api';
+
+// A Grist user action, such as ['BulkRemoveRecord', 'Table1', [1, 2]].
+export type UserAction = [string, ...any[]];
+
+// Result of applying user actions.
+export interface IApplyResult {
+  actionNum: number;
+  actionHash: string | null;
+  // Return value of each action, e.g. the row ids added by BulkAddRecord.
+  retValues: any[];
+  isModification?: boolean;
+}
+
+export class UserActionBatch {
+  private _actions: UserAction[] = [];
+
+  public get actions(): UserAction[] { return this._actions.slice(); }
+  public get length(): number { return this._actions.length; }
+
+  /**
+   * Adds any user action to the batch.
+   */
+  public add(action: UserAction): this {
+    this._actions.push(action);
+    return this;
+  }
+
+  /**
+   * Adds records. The row ids assigned to them are in the corresponding entry of retValues.
+   */
+  public bulkAddRecord(tableId: string, records: IRecord[]): this {
+    return this.add(['BulkAddRecord', tableId, records.map(() => null), makeTableData(records)]);
+  }
+
+  /**
+   * Updates records, each of which must include its numeric 'id'. Records with different sets
+   * of columns are sent as separate actions.
+   */
+  public bulkUpdateRecord(tableId: string, records: IRecord[]): this {
+    const groups = new Map<string, IRecord[]>();
+    for (const rec of records) {
+      if (!rec.id || typeof rec.id !== 'number') {
+        throw new Error("bulkUpdateRecord requires numeric 'id' attribute in each record");
+      }
+      const key = JSON.stringify(Object.keys(rec).sort());
+      const group = groups.get(key) || groups.set(key, []).get(key)!;
+      group.push(rec);
+    }
+    for (const groupRecords of groups.values()) {
+      const {id, ...colValues} = makeTableData(groupRecords);
+      this.add(['BulkUpdateRecord', tableId, id, colValues]);
+    }
+    return this;
+  }
+
+  public bulkRemoveRecord(tableId: string, rowIds: number[]): this {
+    return this.add(['BulkRemoveRecord', tableId, rowIds]);
+  }
+
+  public addTable(tableId: string, columns: IColumnSpec[]): this {
+    return this.add(['AddTable', tableId, columns.map((col) => ({id: col.id, ...makeColInfo(col.fields)}))]);
+  }
+
+  public renameTable(oldTableId: string, newTableId: string): this {
+    return this.add(['RenameTable', oldTableId, newTableId]);
+  }
+
+  public addColumn(tableId: string, colId: string, fields: IColumnFields = {}): this {
+    return this.add(['AddColumn', tableId, colId, makeColInfo(fields)]);
+  }
+
+  public modifyColumn(tableId: string, colId: string, fields: IColumnFields): this {
+    return this.add(['ModifyColumn', tableId, colId, makeColInfo(fields)]);
+  }
+
+  public removeColumn(tableId: string, colId: string): this {
+    return this.add(['RemoveColumn', tableId, colId]);
+  }
+}
+
+/**
+ * Converts column fields to the form user actions expect, in which widgetOptions is a JSON string.
+ */
+function makeColInfo(fields: IColumnFields = {}): IColumnFields {
+  const {widgetOptions} = fields;
+  return (widgetOptions && typeof widgetOptions === 'object') ?
+    {...fields, widgetOptions: JSON.stringify(widgetOptions)} : fields;
+}
@@ -0,0 +1,177 @@
+/**
+ * Receiver for the requests Grist sends to webhooks (see GristDocAPI.addWebhooks). Grist POSTs a
+ * JSON array of records, each with an `id` and the values of the table's columns.
+ *
+ * A WebhookReceiver may run its own HTTP server via listen(), or its handleRequest method may be
+ * passed to an existing server, e.g. `http.createServer(receiver.handleRequest)`.
+ */
+import axios from 'axios';
+import type * as Http from 'http';
+import {IRecord} from './grist-api';
+import {ILogger, makeDebugLogger} from './logger';
+
+// Records received for a route, passed to its handler.
+export interface IWebhookEvent<TRecord = IRecord> {
+  tableId: string;
+  path: string;
+  records: Array<TRecord & {id: number}>;
+  receivedAt: Date;
+}
+
+export interface IWebhookRoute<TRecord = IRecord> {
+  // Request path to which Grist is configured to send, e.g. "/grist/people".
+  path: string;
+  // Table whose records are expected at this path.
+  tableId: string;
+  // Columns that every record must include; payloads with records missing any are rejected.
+  columns?: Array<keyof TRecord & string>;
+  // Called with the received records. Grist retries the delivery if this throws.
+  handler: (event: IWebhookEvent<TRecord>) => void | Promise<void>;
+}
+
+export interface WebhookReceiverOptions {
+  routes?: IWebhookRoute[];
+  // If set, requests must include this value in their Authorization header.
+  authorization?: string;
+  // Limit on the size of request bodies, in bytes. Defaults to 10MB.
+  maxBodySize?: number;
+  logger?: ILogger;
+}
+
+/**
+ * Error for a request that can't be accepted, with the HTTP status to respond with.
+ */
+class RequestError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+export class WebhookReceiver {
+  private _routes = new Map<string, IWebhookRoute>();
+  private _authorization: string | null;
+  private _maxBodySize: number;
+  private _logger: ILogger;
+  private _server: Http.Server | null = null;
+
+  constructor(options: WebhookReceiverOptions = {}) {
+    for (const route of options.routes || []) { this.addRoute(route); }
+    this._authorization = options.authorization ?? null;
+    this._maxBodySize = options.maxBodySize || 10 * 1024 * 1024;
+    this._logger = options.logger || makeDebugLogger('grist-api:webhooks');
+  }
+
+  public addRoute<TRecord = IRecord>(route: IWebhookRoute<TRecord>): void {
+    this._routes.set(route.path, route as unknown as IWebhookRoute);
+  }
+
+  /**
+   * Handles a request from Grist, responding with 200 once the route's handler has succeeded, or
+   * with an error status otherwise, in which case Grist will retry the delivery later.
+   */
+  public handleRequest = (req: Http.IncomingMessage, res: Http.ServerResponse): void => {
+    this._handleRequest(req).then(() => {
+      res.writeHead(200, {'Content-Type': 'application/json'});
+      res.end(JSON.stringify({success: true}));
+    }, (err) => {
+      const status = (err instanceof RequestError) ? err.status : 500;
+      this._logger.warn(`Webhook request to ${req.url} failed with ${status}: ${err.message}`);
+      // If the body wasn't read to the end (e.g. because it was too large), close the connection
+      // once the response is sent, rather than reading the rest.
+      const incomplete = !req.complete;
+      res.writeHead(status, {'Content-Type': 'application/json', ...(incomplete ? {Connection: 'close'} : {})});
+      res.end(JSON.stringify({error: err.message}), () => { if (incomplete) { req.destroy(); } });
+    });
+  }
+
+  /**
+   * Starts an HTTP server for this receiver. Use port 0 to pick any free port; the port in use is
+   * then available as `server.address().port`.
+   */
+  public async listen(port: number, host?: string): Promise<Http.Server> {
+    const http: typeof Http = require('http');
+    const server = http.createServer(this.handleRequest);
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => resolve());
+    });
+    this._server = server;
+    return server;
+  }
+
+  public async close(): Promise<void> {
+    const server = this._server;
+    if (!server) { return; }
+    this._server = null;
+    await new Promise<void>((resolve, reject) => server.close((err) => err ? reject(err) : resolve()));
+  }
+
+  private async _handleRequest(req: Http.IncomingMessage): Promise<void> {
+    const path = (req.url || '').split('?')[0];
+    const route = this._routes.get(path);
+    if (!route) { throw new RequestError(404, `No webhook route for ${path}`); }
+    if (req.method !== 'POST') { throw new RequestError(405, `Method ${req.method} not allowed`); }
+    if (this._authorization !== null && req.headers.authorization !== this._authorization) {
+      throw new RequestError(401, 'Invalid authorization');
+    }
+    const body = await this._readBody(req);
+    let payload: unknown;
+    try {
+      payload = JSON.parse(body);
+    } catch (err) {
+      throw new RequestError(400, `Invalid JSON: ${err.message}`);
+    }
+    const records = validateRecords(payload, route);
+    this._logger.debug(`Received ${records.length} records of ${route.tableId} at ${path}`);
+    await route.handler({tableId: route.tableId, path, records, receivedAt: new Date()});
+  }
+
+  private _readBody(req: Http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      const onData = (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > this._maxBodySize) {
+          // Stop reading, but leave the connection open to respond with the error.
+          req.off('data', onData);
+          req.pause();
+          reject(new RequestError(413, `Request body exceeds ${this._maxBodySize} bytes`));
+          return;
+        }
+        chunks.push(chunk);
+      };
+      req.on('data', onData);
+      req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+      req.on('error', reject);
+    });
+  }
+}
+
+/**
+ * Checks that a webhook payload is a list of records of the route's table, and returns them.
+ */
+function validateRecords(payload: unknown, route: IWebhookRoute): Array<IRecord & {id: number}> {
+  if (!Array.isArray(payload)) {
+    throw new RequestError(400, `Expected a list of ${route.tableId} records`);
+  }
+  for (const rec of payload) {
+    if (!rec || typeof rec !== 'object' || typeof rec.id !== 'number') {
+      throw new RequestError(400, `Invalid ${route.tableId} record: expected an object with numeric id`);
+    }
+    const missing = (route.columns || []).filter((colId) => !(colId in rec));
+    if (missing.length > 0) {
+      throw new RequestError(400, `${route.tableId} record ${rec.id} is missing columns: ${missing.join(', ')}`);
+    }
+  }
+  return payload;
+}
+
+/**
+ * Sends records to a webhook URL the way Grist does, e.g. to test a WebhookReceiver locally.
+ */
+export async function sendWebhookRecords(url: string, records: IRecord[], authorization?: string): Promise<void> {
+  await axios.post(url, records, {
+    headers: authorization ? {Authorization: authorization} : {},
+  });
+}
@@ -0,0 +1,77 @@
+import {assert} from 'chai';
+import {IAccessRulesData, parseAccessRules, planAccessRuleChanges, planEnsureAccessRules} from '../../lib';
+
+describe("access-rules", function() {
+  // As in Grist documents, resource 1 and rule 1 are legacy placeholders.
+  const data: IAccessRulesData = {
+    resources: [
+      {id: 1, tableId: '', colIds: ''},
+      {id: 2, tableId: 'Table1', colIds: '*'},
+      {id: 3, tableId: '*', colIds: '*'},
+      {id: 4, tableId: 'Table1', colIds: 'Name,Age'},
+    ],
+    rules: [
+      {id: 1, resource: 1, aclFormula: '', permissionsText: '', memo: '', rulePos: 0},
+      {id: 2, resource: 2, aclFormula: 'user.Access != OWNER', permissionsText: '-D', memo: 'no deletes', rulePos: 1},
+      {id: 3, resource: 2, aclFormula: '', permissionsText: 'all', memo: '', rulePos: 2},
+      {id: 4, resource: 3, aclFormula: 'user.Access == VIEWERS', permissionsText: '-R', memo: '', rulePos: 3},
+      {id: 5, resource: 4, aclFormula: '', permissionsText: '', memo: '', rulePos: 4, userAttributes: '{"name": "X"}'},
+    ],
+  };
+
+  it("should parse rules, skipping placeholders and user attributes", function() {
+    assert.deepEqual(parseAccessRules(data), [
+      {id: 2, resourceId: 2, tableId: 'Table1', colIds: '*', aclFormula: 'user.Access != OWNER',
+       permissionsText: '-D', memo: 'no deletes', rulePos: 1},
+      {id: 3, resourceId: 2, tableId: 'Table1', colIds: '*', aclFormula: '', permissionsText: 'all', memo: '',
+       rulePos: 2},
+      {id: 4, resourceId: 3, tableId: '*', colIds: '*', aclFormula: 'user.Access == VIEWERS', permissionsText: '-R',
+       memo: '', rulePos: 3},
+    ]);
+  });
+
+  it("should plan changes, adding and removing resources as needed", function() {
+    const batch = planAccessRuleChanges(data, {
+      add: [
+        {tableId: 'Table1', aclFormula: 'user.Access == EDITORS', permissionsText: '-C'},
+        {tableId: 'Table2', colIds: ['Name'], permissionsText: 'none'},
+      ],
+      update: [{id: 2, permissionsText: '-CD'}],
+      remove: [4],
+    });
+    assert.deepEqual(batch.actions, [
+      ['BulkAddRecord', '_grist_ACLResources', [-1], {tableId: ['Table2'], colIds: ['Name']}],
+      // The conditional rule goes before the default rule of Table1, and the other one last.
+      ['BulkAddRecord', '_grist_ACLRules', [null, null], {
+        resource: [2, -1], aclFormula: ['user.Access == EDITORS', ''], permissionsText: ['-C', 'none'],
+        memo: ['', ''], rulePos: [1.5, 5],
+      }],
+      ['BulkUpdateRecord', '_grist_ACLRules', [2], {permissionsText: ['-CD']}],
+      ['BulkRemoveRecord', '_grist_ACLRules', [4]],
+      ['BulkRemoveRecord', '_grist_ACLResources', [3]],
+    ]);
+
+    // The placeholder resource is kept even without rules.
+    const withoutPlaceholderRule = {...data, rules: data.rules.slice(1)};
+    assert.deepEqual(planAccessRuleChanges(withoutPlaceholderRule, {remove: [2, 3]}).actions, [
+      ['BulkRemoveRecord', '_grist_ACLRules', [2, 3]],
+      ['BulkRemoveRecord', '_grist_ACLResources', [2]],
+    ]);
+    assert.throws(() => planAccessRuleChanges(data, {update: [{id: 1, permissionsText: 'all'}]}),
+      /Access rule 1 not found/);
+  });
+
+  it("should plan changes to match a list of rules, leaving the placeholder alone", function() {
+    const {changes, result} = planEnsureAccessRules(data, [
+      {tableId: 'Table1', aclFormula: 'user.Access != OWNER', permissionsText: '-CD', memo: 'no deletes'},
+      {tableId: 'Table1', permissionsText: 'all'},
+      {tableId: 'Table1', colIds: ['Age'], permissionsText: '-R'},
+    ]);
+    assert.deepEqual(changes, {
+      add: [{tableId: 'Table1', colIds: ['Age'], permissionsText: '-R', rulePos: 3}],
+      update: [{id: 2, permissionsText: '-CD', memo: 'no deletes', rulePos: 1}],
+      remove: [4],
+    });
+    assert.deepEqual(result, {numAdded: 1, numUpdated: 1, numRemoved: 1});
+  });
+});
@@ -0,0 +1,47 @@
+import {assert} from 'chai';
+import {CellError, CellValue, CensoredValue, decodeCellValue, decodeRecord, encodeCellValue, encodeRecord, IRecord,
+        PendingValue, Reference, ReferenceList} from '../../lib';
+
+describe("cell-values", function() {
+  it("should decode tagged values", function() {
+    assert.deepEqual(decodeCellValue(['L', 'a', ['L', 1, 2]]), ['a', [1, 2]]);
+    assert.deepEqual(decodeCellValue(['O', {a: 1, b: ['L', 'x']}]), {a: 1, b: ['x']});
+    assert.deepEqual(decodeCellValue(['D', 1561507200, 'UTC']), new Date('2019-06-26T00:00:00Z'));
+    assert.deepEqual(decodeCellValue(['d', 1561507200]), new Date('2019-06-26T00:00:00Z'));
+    assert.deepEqual(decodeCellValue(['R', 'People', 17]), new Reference('People', 17));
+    assert.deepEqual(decodeCellValue(['r', 'People', [1, 2]]), new ReferenceList('People', [1, 2]));
+    assert.instanceOf(decodeCellValue(['P']), PendingValue);
+    assert.instanceOf(decodeCellValue(['C']), CensoredValue);
+
+    const err = decodeCellValue(['E', 'ZeroDivisionError', 'division by zero']);
+    assert.instanceOf(err, CellError);
+    assert.equal(String(err), '#ZeroDivisionError: division by zero');
+  });
+
+  it("should leave plain and unknown values unchanged", function() {
+    const values: CellValue[] = [17, 'text', true, null, ['U', 'unmarshallable']];
+    for (const value of values) {
+      assert.deepEqual(decodeCellValue(value), value);
+    }
+  });
+
+  it("should encode values for writing, reversing decoding", function() {
+    const values: CellValue[] = [17, 'text', false, null, ['L', 'a', 'b'], ['O', {a: ['L', 1]}]];
+    for (const value of values) {
+      assert.deepEqual(encodeCellValue(decodeCellValue(value)), value);
+    }
+    // Dates and references become what Grist expects in Date and Ref columns.
+    assert.equal(encodeCellValue(decodeCellValue(['d', 1561507200])), 1561507200);
+    assert.equal(encodeCellValue(new Reference('People', 17)), 17);
+    assert.deepEqual(encodeCellValue(new ReferenceList('People', [1, 2])), ['L', 1, 2]);
+
+    assert.throws(() => encodeCellValue(new CellError('TypeError')), /Cannot write CellError/);
+    assert.throws(() => encodeCellValue(new PendingValue()), /Cannot write PendingValue/);
+  });
+
+  it("should convert whole records", function() {
+    const record: IRecord = {id: 1, Tags: ['L', 'x', 'y'], Owner: 3};
+    assert.deepEqual(decodeRecord(record), {id: 1, Tags: ['x', 'y'], Owner: 3});
+    assert.deepEqual(encodeRecord(decodeRecord(record)), record);
+  });
+});
@@ -0,0 +1,29 @@
+import {assert} from 'chai';
+import {parseArgs, parseCsv, parseCsvRecords} from '../../lib/cli';
+
+describe("cli", function() {
+  it("should parse arguments", function() {
+    assert.deepEqual(parseArgs(['fetch', '--doc', 'abc', '--limit=5', '--sort=-Age', '--dry-run', '--table', 'T']), {
+      command: 'fetch',
+      options: {'doc': 'abc', 'limit': '5', 'sort': '-Age', 'dry-run': true, 'table': 'T'},
+    });
+    assert.deepEqual(parseArgs(['--help']), {command: 'help', options: {help: true}});
+    assert.deepEqual(parseArgs(['sync', '--delete-missing', '--keys', 'Name']),
+      {command: 'sync', options: {'delete-missing': true, 'keys': 'Name'}});
+  });
+
+  it("should parse CSV", function() {
+    assert.deepEqual(parseCsv('a,b\n1,2\n'), [['a', 'b'], ['1', '2']]);
+    assert.deepEqual(parseCsv('a,b\r\n"x, ""y""","multi\nline"\r\n,'),
+      [['a', 'b'], ['x, "y"', 'multi\nline'], ['', '']]);
+    assert.deepEqual(parseCsv('a'), [['a']]);
+    assert.deepEqual(parseCsv(''), []);
+  });
+
+  it("should parse CSV records, keeping values as text unless asked for numbers", function() {
+    const text = 'Code,Qty,Price,Big\n007,12,-0.5,1e5\n';
+    assert.deepEqual(parseCsvRecords(text), [{Code: '007', Qty: '12', Price: '-0.5', Big: '1e5'}]);
+    assert.deepEqual(parseCsvRecords(text, {numbers: true}), [{Code: '007', Qty: 12, Price: -0.5, Big: '1e5'}]);
+    assert.deepEqual(parseCsvRecords('Name,Age\nAlice\n'), [{Name: 'Alice', Age: ''}]);
+  });
+});
@@ -0,0 +1,55 @@
+import {assert} from 'chai';
+import {parseComparison} from '../../lib';
+
+describe("doc-history", function() {
+  const left = {n: 12, h: 'abc'};
+  const right = {n: 14, h: 'def'};
+
+  it("should parse comparisons without details", function() {
+    assert.deepEqual(parseComparison({left, right, parent: left, summary: 'right'}),
+      {left, right, parent: left, summary: 'right'});
+    assert.deepEqual(parseComparison({left, right: left, parent: null, summary: 'unrelated'}),
+      {left, right: left, parent: null, summary: 'unrelated'});
+  });
+
+  it("should parse changes into added, removed and updated rows", function() {
+    const emptySummary = {tableRenames: [], tableDeltas: {}};
+    const comparison = parseComparison({
+      left, right, parent: left, summary: 'right',
+      details: {
+        leftChanges: emptySummary,
+        rightChanges: {
+          tableRenames: [[null, 'People']],
+          tableDeltas: {
+            Table1: {
+              addRows: [5],
+              removeRows: [2],
+              updateRows: [1, 3],
+              columnDeltas: {
+                Name: {1: [['Apple'], ['Apples']], 2: [['Orange'], null], 3: ['?', ['Melons']], 5: [null, ['Kiwi']]},
+                Num: {2: [[8], null], 5: [null, [3]]},
+              },
+              columnRenames: [['Num', 'Count']],
+            },
+          },
+        },
+      },
+    });
+    assert.deepEqual(comparison.leftChanges, {tableRenames: [], tables: {}});
+    assert.deepEqual(comparison.rightChanges, {
+      tableRenames: [[null, 'People']],
+      tables: {
+        Table1: {
+          columnRenames: [['Num', 'Count']],
+          addedRows: [{id: 5, Name: 'Kiwi', Num: 3}],
+          removedRows: [{id: 2, Name: 'Orange', Num: 8}],
+          // Values Grist reports as unknown ("?") are left out.
+          updatedRows: [
+            {id: 1, before: {Name: 'Apple'}, after: {Name: 'Apples'}},
+            {id: 3, before: {}, after: {Name: 'Melons'}},
+          ],
+        },
+      },
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import {assert} from 'chai';
+import {describeRequest, formatDryRunPlan, IDryRunEntry} from '../../lib';
+
+describe("dry-run", function() {
+  it("should describe requests to table endpoints", function() {
+    assert.deepEqual(describeRequest('POST', 'docs/doc1/tables/Table1/data', {Name: ['a', 'b'], Age: [1, 2]}), [{
+      method: 'POST', endpoint: 'docs/doc1/tables/Table1/data', docId: 'doc1', tableName: 'Table1',
+      action: 'AddRecords', numRows: 2, columns: ['Age', 'Name'],
+    }]);
+    assert.deepInclude(describeRequest('PUT', 'docs/doc1/tables/Table1/records?onmany=all', {records: [{}, {}, {}]})[0],
+      {tableName: 'Table1', action: 'AddOrUpdateRecords', numRows: 3});
+    assert.deepInclude(describeRequest('DELETE', 'docs/doc1/tables/Table1/columns/Age')[0],
+      {tableName: 'Table1', action: 'RemoveColumn'});
+    assert.deepInclude(describeRequest('POST', 'docs/doc1/webhooks', {webhooks: []})[0],
+      {docId: 'doc1', action: 'POST webhooks'});
+    assert.deepInclude(describeRequest('DELETE', 'workspaces/5')[0], {docId: undefined, action: 'DELETE workspaces/5'});
+  });
+
+  it("should describe each action sent to the apply endpoint", function() {
+    const entries = describeRequest('POST', 'docs/doc1/apply', [
+      ['BulkRemoveRecord', 'Table1', [1, 2, 3]],
+      ['UpdateRecord', 'Table1', 4, {Name: 'x'}],
+      ['BulkUpdateRecord', 'Table1', [5], {Name: ['y'], Age: [3]}],
+      ['AddTable', 'People', [{id: 'Name'}, {id: 'Age'}]],
+      ['RenameTable', 'People', 'Persons'],
+    ]);
+    assert.deepEqual(entries.map((e) => [e.action, e.tableName, e.numRows, e.columns]), [
+      ['BulkRemoveRecord', 'Table1', 3, undefined],
+      ['UpdateRecord', 'Table1', 1, undefined],
+      ['BulkUpdateRecord', 'Table1', 1, ['Age', 'Name']],
+      // Actions that don't change records have no row counts.
+      ['AddTable', 'People', undefined, undefined],
+      ['RenameTable', 'People', undefined, undefined],
+    ]);
+  });
+
+  it("should format plans", function() {
+    const plan: IDryRunEntry[] = [
+      ...describeRequest('PATCH', 'docs/doc1/tables/Table1/data', {id: [1, 2], Name: ['a', 'b']}),
+      {endpoint: 'docs/doc1/tables/Table1', docId: 'doc1', tableName: 'Table1', action: 'SyncTable',
+       keysToAdd: [['Kiwi']], keysToUpdate: [], keysToDelete: [['Fig'], ['Lime']]},
+      ...describeRequest('POST', 'docs/doc1/force-reload'),
+    ];
+    assert.equal(formatDryRunPlan(plan), [
+      'PATCH docs/doc1/tables/Table1/data: UpdateRecords Table1 2 rows, cols (Name, id)',
+      'docs/doc1/tables/Table1: SyncTable Table1 would add 1 ["Kiwi"], update 0, delete 2 ["Fig"] ["Lime"]',
+      'POST docs/doc1/force-reload: POST force-reload',
+    ].join('\n'));
+  });
+});
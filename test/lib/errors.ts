@@ -0,0 +1,53 @@
+import {AxiosError} from 'axios';
+import {assert} from 'chai';
+import {makeGristApiError, RateLimitError, ServerError, TimeoutError} from '../../lib/errors';
+
+// Returns an error like axios produces for a response with the given status, or for a network
+// error with the given code.
+function makeError(statusOrCode: number | string, headers: {[name: string]: string} = {}): AxiosError {
+  return (typeof statusOrCode === 'number' ?
+    {message: 'failed', response: {status: statusOrCode, headers}} :
+    {message: 'failed', code: statusOrCode}) as unknown as AxiosError;
+}
+
+describe("errors", function() {
+  it("should be retryable only if it is safe to repeat the request", function() {
+    const url = 'docs/abc/tables/Table1/data';
+    const timeout = makeGristApiError(makeError('ECONNABORTED'), {method: 'POST', url});
+    assert.instanceOf(timeout, TimeoutError);
+    assert.isFalse(timeout.retryable);
+    assert.isTrue(makeGristApiError(makeError('ECONNABORTED'), {method: 'GET', url}).retryable);
+    assert.isTrue(makeGristApiError(makeError('ECONNABORTED'), {method: 'POST', url, idempotent: true}).retryable);
+    assert.isTrue(makeGristApiError(makeError('ECONNREFUSED'), {method: 'POST', url}).retryable);
+    assert.isFalse(makeGristApiError(makeError('EPROTO'), {method: 'GET', url}).retryable);
+
+    const serverError = makeGristApiError(makeError(503), {method: 'POST', url});
+    assert.instanceOf(serverError, ServerError);
+    assert.isFalse(serverError.retryable);
+    assert.isTrue(makeGristApiError(makeError(503), {method: 'POST', url: 'docs/abc/sql', idempotent: true}).retryable);
+    assert.isTrue(makeGristApiError(makeError(429), {method: 'POST', url}).retryable);
+  });
+
+  it("should report the Retry-After delay of a RateLimitError", function() {
+    const url = 'docs/abc/tables/Table1/data';
+    const inSeconds = makeGristApiError(makeError(429, {'retry-after': '3'}), {method: 'GET', url});
+    assert.instanceOf(inSeconds, RateLimitError);
+    assert.equal((inSeconds as RateLimitError).retryAfterMs, 3000);
+
+    const date = new Date(Date.now() + 5000).toUTCString();
+    const atDate = makeGristApiError(makeError(429, {'retry-after': date}), {method: 'GET', url}) as RateLimitError;
+    assert.isAbove(atDate.retryAfterMs!, 3000);
+    assert.isAtMost(atDate.retryAfterMs!, 5000);
+
+    assert.isUndefined((makeGristApiError(makeError(429), {method: 'GET', url}) as RateLimitError).retryAfterMs);
+  });
+
+  it("should include the docId and tableName", function() {
+    assert.include(makeGristApiError(makeError(404), {method: 'GET', url: 'docs/abc/tables/My%20Table/data'}),
+      {docId: 'abc', tableName: 'My Table'});
+    assert.include(makeGristApiError(makeError(400), {method: 'POST', url: 'docs/abc/apply', tableName: 'Table1'}),
+      {docId: 'abc', tableName: 'Table1'});
+    assert.include(makeGristApiError(makeError(404), {method: 'GET', url: 'orgs/5'}),
+      {docId: undefined, tableName: undefined});
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Tests that the in-memory FakeGristServer follows Grist's semantics, e.g. for row ids, default
+ * values and atomic actions. Tests of GristDocAPI itself, which use the fake server, are in
+ * grist-api.ts.
+ */
+import {assert} from 'chai';
+import * as chai from 'chai';
+import * as chaiAsPromised from 'chai-as-promised';
+import {FakeGristServer, GristDocAPI, UserActionBatch} from '../../lib';
+
+chai.use(chaiAsPromised);
+
+describe("FakeGristServer", function() {
+  let server: FakeGristServer;
+  let api: GristDocAPI;
+  let orgId: number;
+  let workspaceId: number;
+  let docId: string;
+  let serverUrl: string;
+
+  beforeEach(async function() {
+    server = new FakeGristServer({apiKey: 'test-key'});
+    orgId = server.addOrg({name: 'Acme', domain: 'acme'});
+    workspaceId = server.addWorkspace(orgId, 'Home');
+    docId = server.addDoc(workspaceId, 'Fruit');
+    server.addTable(docId, 'Table1', [
+      {id: 'Name', fields: {type: 'Text'}},
+      {id: 'Num', fields: {type: 'Numeric'}},
+      {id: 'Total', fields: {type: 'Numeric', isFormula: true, formula: '$Num * 2'}},
+    ], [
+      {Name: 'Apple', Num: 5},
+      {Name: 'Orange', Num: 8},
+      {Name: 'Melon', Num: 12},
+    ]);
+    serverUrl = await server.listen();
+    api = new GristDocAPI({server: serverUrl, apiKey: 'test-key'});
+    api.setDocId(docId);
+  });
+
+  afterEach(async function() {
+    await server.close();
+  });
+
+  it("should support orgs, workspaces and docs", async function() {
+    assert.deepEqual((await api.listOrgs()).map((org) => org.name), ['Acme']);
+    const wsId = await api.createWorkspace({orgId, name: 'Projects'});
+    const newDocId = await api.createDoc({workspaceId: wsId, name: 'Plans'});
+    let workspaces = await api.listWorkspaces({orgId});
+    assert.deepEqual(workspaces.map((ws) => [ws.name, ws.docs!.map((doc) => doc.name)]),
+      [['Home', ['Fruit']], ['Projects', ['Plans']]]);
+
+    await api.modifyDoc({docId: newDocId, name: 'Plans 2'});
+    await api.moveDoc({docId: newDocId, workspaceId});
+    await api.deleteWorkspace({workspaceId: wsId});
+    workspaces = await api.listWorkspaces({orgId});
+    assert.deepEqual(workspaces.map((ws) => [ws.name, ws.docs!.map((doc) => doc.name)]),
+      [['Home', ['Fruit', 'Plans 2']]]);
+
+    await api.modifyDocAccess({delta: {users: {'alice@example.com': 'editors'}}});
+    const access = await api.getDocAccess();
+    assert.deepEqual(access.users.map((u) => [u.email, u.access]), [['alice@example.com', 'editors']]);
+  });
+
+  it("should reject requests with a wrong API key", async function() {
+    const other = new GristDocAPI({server: serverUrl, apiKey: 'wrong-key'});
+    await assert.isRejected(other.listOrgs(), /invalid API key/);
+  });
+
+  it("should assign row ids and default values like Grist", async function() {
+    assert.deepEqual(await api.addRecords({tableName: 'Table1', records: [{Name: 'Eggs'}, {Name: 'Beets'}]}), [4, 5]);
+    assert.deepEqual(await api.fetchTable({tableName: 'Table1', filters: {id: [4, 5]}}), [
+      {id: 4, Name: 'Eggs', Num: 0, Total: null},
+      {id: 5, Name: 'Beets', Num: 0, Total: null},
+    ]);
+
+    // As in Grist, the next id follows the highest one still in use.
+    await api.deleteRecords({tableName: 'Table1', recordIds: [4, 5]});
+    assert.deepEqual(await api.addRecords({tableName: 'Table1', records: [{Name: 'Kiwi'}]}), [4]);
+  });
+
+  it("should apply actions atomically", async function() {
+    const result = await api.applyActions({actions: new UserActionBatch()
+      .bulkAddRecord('Table1', [{Name: 'Fig'}])
+      .bulkRemoveRecord('Table1', [2])
+      .addColumn('Table1', 'Color', {type: 'Text'})});
+    assert.deepEqual(result.retValues[0], [4]);
+    assert.deepEqual(server.getRecords(docId, 'Table1').map((r) => [r.id, r.Name, r.Color]), [
+      [1, 'Apple', ''], [3, 'Melon', ''], [4, 'Fig', ''],
+    ]);
+
+    // Removing a row that doesn't exist fails, and the preceding action is not applied either.
+    await assert.isRejected(api.applyActions({actions: new UserActionBatch()
+      .bulkAddRecord('Table1', [{Name: 'Date'}])
+      .bulkRemoveRecord('Table1', [2])}), /Invalid row id 2/);
+    assert.lengthOf(server.getRecords(docId, 'Table1'), 3);
+  });
+});
@@ -1,53 +1,34 @@
 /**
  * The test is intended to test the behavior of the library, i.e. translating javascript calls to HTTP
- * requests and interpreting the results. But we can only know it's correct by sending these
- * requests to an actual Grist instance and checking their effects.
- *
- * These tests rely on the "replay" library to record and replay requests. When writing the tests, run
- * them with REPLAY=record environment variables to run against an actual Grist instance. If the
- * tests pass, the HTTP requests and responses get recorded in test/fixtures/replay/. When tests run
- * without this environment variables, the requests get matched, and responses get replayed. When
- * replaying, we are not checking Grist functionality, only that correct requests get produced, and
- * that responses get parsed.
- *
- * To record interactions with REPLAY=record, you need to use a functional instance of Grist on
- * localhost:8080. Upload document test/fixtures/TestGristDocAPI.grist to Grist, and set
- * GRIST_DOC_URL env var to it. Find your API key, and set GRIST_API_KEY env var to it.
+ * requests and interpreting the results. It runs against FakeGristServer, an in-memory stand-in
+ * for Grist that follows its semantics for the endpoints the library uses, so needs no network,
+ * recorded fixtures or API key. The fake server doesn't evaluate formulas, so the tests don't
+ * rely on them.
  */
 // tslint:disable:object-literal-key-quotes
 
-/// <reference types="../replay" />
-import axios from 'axios';
 import {assert} from 'chai';
 import * as chai from 'chai';
 import * as chaiAsPromised from 'chai-as-promised';
+import * as fse from 'fs-extra';
+import * as http from 'http';
 import range = require('lodash/range');
+import zipObject = require('lodash/zipObject');
+import * as os from 'os';
 import * as path from 'path';
-import * as Replay from 'replay';
-import {CellValue, GristDocAPI, IRecord} from '../../lib';
+import {AbortError, AuthError, CellValue, FakeGristServer, generateTableTypes, getAPIKey, GristDocAPI, IRecord,
+        makeCallbackCredentials, makeHeaderCredentials, makeProfileCredentials, NotFoundError,
+        ValidationError} from '../../lib';
 
 chai.use(chaiAsPromised);
 
-// Set where Replay will record requests, with REPLAY=record env var.
-Replay.fixtures = path.join(path.dirname(__dirname), '/fixtures/replay');
-
-// Remove "localhost" from Replay's list of localhosts requests to which it would not record.
-Replay.reset('localhost');
-
-// Do not record the Authorization header.
-Replay.headers  = (Replay.headers as RegExp[]).filter((r) => !/auth/i.test(r.source));
-
-// Server and docId with which fixtures were recorded.
-const DOC_URL = process.env.GRIST_DOC_URL || "http://localhost:8080/o/docs-8/doc/28a446f2-903e-4bd4-8001-1dbd3a68e5a5";
-const LIVE = Boolean(process.env.REPLAY && process.env.REPLAY !== 'replay');
-
 const initialData: {[tableId: string]: CellValue[][]} = {
   Table1: [
-    ['id',  'Text_Field', 'Num',  'Date',               'ColorRef', 'ColorRef_Value', 'ChoiceList'],
-    [1,     'Apple',      5,      datets(2019, 6, 26),  1,          "RED",            ['L', 'Foo', 'Bar']],
-    [2,     'Orange',     8,      datets(2019, 5, 1),   2,          "ORANGE",         ['L', 'Baz 2']],
-    [3,     'Melon',      12,     datets(2019, 4, 2),   3,          "GREEN",          null],
-    [4,     'Strawberry', 1.5,    datets(2019, 3, 3),   1,          "RED",            ['L', 'Baz 2', 'Foo']],
+    ['id',  'Text_Field', 'Num',  'Date',               'ColorRef', 'ChoiceList'],
+    [1,     'Apple',      5,      datets(2019, 6, 26),  1,          ['L', 'Foo', 'Bar']],
+    [2,     'Orange',     8,      datets(2019, 5, 1),   2,          ['L', 'Baz 2']],
+    [3,     'Melon',      12,     datets(2019, 4, 2),   3,          null],
+    [4,     'Strawberry', 1.5,    datets(2019, 3, 3),   1,          ['L', 'Baz 2', 'Foo']],
   ],
 };
 
@@ -62,35 +43,58 @@ function datets(year: number, month1based: number, day: number): number {
   return Date.UTC(year, month1based - 1, day) / 1000;
 }
 
-describe("grist-api", function() {
-  this.timeout(10000);
+/**
+ * Creates a server with an org "Acme", a workspace "Home", and a doc "Fruit" with the tables
+ * Colors and Table1, the latter containing initialData.
+ */
+function makeServer(options: {apiKey?: string} = {apiKey: 'test-key'}) {
+  const server = new FakeGristServer(options);
+  const orgId = server.addOrg({name: 'Acme', domain: 'acme'});
+  const workspaceId = server.addWorkspace(orgId, 'Home');
+  const docId = server.addDoc(workspaceId, 'Fruit');
+  server.addTable(docId, 'Colors', [{id: 'Name', fields: {type: 'Text'}}],
+    [{Name: 'RED'}, {Name: 'ORANGE'}, {Name: 'GREEN'}]);
+  const [headers, ...rows] = initialData.Table1 as any[][];
+  server.addTable(docId, 'Table1', [
+    {id: 'Text_Field', fields: {type: 'Text'}},
+    {id: 'Num', fields: {type: 'Numeric'}},
+    {id: 'Date', fields: {type: 'Date'}},
+    {id: 'ColorRef', fields: {type: 'Ref:Colors'}},
+    {id: 'ChoiceList', fields: {type: 'ChoiceList'}},
+  ], rows.map((row) => zipObject(headers, row)));
+  return {server, orgId, workspaceId, docId};
+}
 
+describe("grist-api", function() {
+  let server: FakeGristServer;
+  let serverUrl: string;
+  let workspaceId: number;
+  let docId: string;
   let gristApi: GristDocAPI;
-  let interceptor: number;
-  let requestNum: number = 0;
-
-  before(function() {
-    gristApi = new GristDocAPI(DOC_URL, {apiKey: LIVE ? undefined : "unused"});
-  });
 
   beforeEach(async function() {
-    // Include a per-test sequential value into each request, so that the replay module doesn't
-    // reuse requests (e.g. fetchTable calls produce different results after changes to doc).
-    const testName = this.currentTest!.fullTitle();
-    requestNum = 0;
-    interceptor = axios.interceptors.request.use((config) => {
-      config.headers['X-Request-Num'] = `${testName}/${requestNum++}`;
-      return config;
-    });
+    ({server, workspaceId, docId} = makeServer());
+    serverUrl = await server.listen();
+    gristApi = new GristDocAPI({server: serverUrl, apiKey: 'test-key'});
+    gristApi.setDocId(docId);
   });
 
   afterEach(async function() {
-    axios.interceptors.request.eject(interceptor);
+    await server.close();
   });
 
+  // Returns a GristDocAPI for the test doc with the given config.
+  function makeApi(config: ConstructorParameters<typeof GristDocAPI>[0] = {}) {
+    const api = new GristDocAPI({server: serverUrl, apiKey: 'test-key', ...config});
+    api.setDocId(docId);
+    return api;
+  }
+
   it("should parse various doc URLs", async function() {
     function getDocId(docUrlOrId: string) {
-      return new GristDocAPI(docUrlOrId, {apiKey: "unused"}).docId;
+      const api = new GristDocAPI({apiKey: "unused"});
+      api.setDocId(docUrlOrId);
+      return api.docId;
     }
     assert.equal(getDocId('http://localhost:8080/o/docs/wW5ATuoLAKwH/Receivable/p/1'), 'wW5ATuoLAKwH');
     assert.equal(getDocId('https://public.getgrist.com/doc/foobar/p/19'), 'foobar');
@@ -100,174 +104,193 @@ describe("grist-api", function() {
 
   it("should support fetchTable", async function() {
     // Test the basic fetchTable
-    let data: IRecord[] = await gristApi.fetchTable('Table1');
+    let data: IRecord[] = await gristApi.fetchTable({tableName: 'Table1'});
     assertData(data, initialData.Table1);
 
     // Test fetchTable with filters
-    data = await gristApi.fetchTable('Table1', {ColorRef: [1]});
+    data = await gristApi.fetchTable({tableName: 'Table1', filters: {ColorRef: [1]}});
     assertData(data, [
-      ['id',  'Text_Field', 'Num',  'Date',               'ColorRef', 'ColorRef_Value', 'ChoiceList'],
-      [1,     'Apple',      5,      datets(2019, 6, 26),  1,          "RED",            ['L', 'Foo', 'Bar']],
-      [4,     'Strawberry', 1.5,    datets(2019, 3, 3),   1,          "RED",            ['L', 'Baz 2', 'Foo']],
+      ['id',  'Text_Field', 'Num',  'Date',               'ColorRef', 'ChoiceList'],
+      [1,     'Apple',      5,      datets(2019, 6, 26),  1,          ['L', 'Foo', 'Bar']],
+      [4,     'Strawberry', 1.5,    datets(2019, 3, 3),   1,          ['L', 'Baz 2', 'Foo']],
     ]);
   });
 
+  it("should support fetchTable with sort and limit", async function() {
+    const names = (records: IRecord[]) => records.map((r) => r.Text_Field);
+    assert.deepEqual(names(await gristApi.fetchTable({tableName: 'Table1', sort: '-Num', limit: 2})),
+      ['Melon', 'Orange']);
+    assert.deepEqual(names(await gristApi.fetchTable({tableName: 'Table1', filters: {ColorRef: [1]},
+                                                      sort: [{colId: 'Num'}]})),
+      ['Strawberry', 'Apple']);
+  });
+
+  it("should support typedValues", async function() {
+    const records = await gristApi.fetchTable({tableName: 'Table1', filters: {id: [1, 3]}, typedValues: true});
+    assert.deepEqual(records.map((r) => r.ChoiceList), [['Foo', 'Bar'], null]);
+
+    await gristApi.updateRecords({tableName: 'Table1', typedValues: true,
+                                  records: [{id: 3, ChoiceList: ['Baz 2'], Date: new Date(Date.UTC(2020, 0, 1))}]});
+    assert.deepInclude(server.getRecords(docId, 'Table1')[2], {ChoiceList: ['L', 'Baz 2'], Date: datets(2020, 1, 1)});
+  });
+
   it("should support addRecords and deleteRecords", async function() {
-    const addedRows = await gristApi.addRecords('Table1', [
+    const addedRows = await gristApi.addRecords({tableName: 'Table1', records: [
       {Text_Field: "Eggs", Num: 2, ColorRef: 3, Date: datets(2019, 1, 17)},
       {Text_Field: "Beets", Num: 2}
-    ]);
+    ]});
     assert.deepEqual(addedRows, [5, 6]);
 
-    let data = await gristApi.fetchTable('Table1', {Num: [2]});
+    let data = await gristApi.fetchTable({tableName: 'Table1', filters: {Num: [2]}});
     assertData(data, [
-      ['id',  'Text_Field', 'Num',  'Date',               'ColorRef', 'ColorRef_Value'],
-      [5,     'Eggs',       2,      datets(2019, 1, 17),  3,          "GREEN"],
-      [6,     'Beets',      2,      null,                 0,          null],
+      ['id',  'Text_Field', 'Num',  'Date',               'ColorRef'],
+      [5,     'Eggs',       2,      datets(2019, 1, 17),  3],
+      [6,     'Beets',      2,      null,                 0],
     ]);
 
-    await gristApi.deleteRecords('Table1', [5, 6]);
+    await gristApi.deleteRecords({tableName: 'Table1', recordIds: [5, 6]});
 
-    data = await gristApi.fetchTable('Table1', {Num: [2]});
+    data = await gristApi.fetchTable({tableName: 'Table1', filters: {Num: [2]}});
     assertData(data, [
-      ['id',  'Text_Field', 'Num',  'Date',               'ColorRef', 'ColorRef_Value'],
+      ['id',  'Text_Field', 'Num',  'Date',               'ColorRef'],
     ]);
   });
 
   it('should support updateRecords', async function() {
-    await gristApi.updateRecords('Table1', [
+    await gristApi.updateRecords({tableName: 'Table1', records: [
       {"id": 1, "Num": -5, "Text_Field": "snapple", "ColorRef": 2},
       {"id": 4, "Num": -1.5, "Text_Field": null, "ColorRef": 2},
-    ]);
+    ]});
 
-    // Note that the formula field gets updated too.
-    let data = await gristApi.fetchTable('Table1');
+    let data = await gristApi.fetchTable({tableName: 'Table1'});
     assertData(data, [
-      ['id',  'Text_Field', 'Num',  'Date',               'ColorRef', 'ColorRef_Value'],
-      [1,     'snapple',    -5,     datets(2019, 6, 26),  2,          "ORANGE"],
-      [2,     'Orange',     8,      datets(2019, 5, 1),   2,          "ORANGE"],
-      [3,     'Melon',      12,     datets(2019, 4, 2),   3,          "GREEN"],
-      [4,     null,         -1.5,   datets(2019, 3, 3),   2,          "ORANGE"],
+      ['id',  'Text_Field', 'Num',  'Date',               'ColorRef'],
+      [1,     'snapple',    -5,     datets(2019, 6, 26),  2],
+      [2,     'Orange',     8,      datets(2019, 5, 1),   2],
+      [3,     'Melon',      12,     datets(2019, 4, 2),   3],
+      [4,     null,         -1.5,   datets(2019, 3, 3),   2],
     ]);
 
     // Revert the changes.
-    await gristApi.updateRecords('Table1', [
+    await gristApi.updateRecords({tableName: 'Table1', records: [
       {"id": 1, "Num": 5, "Text_Field": "Apple", "ColorRef": 1},
       {"id": 4, "Num": 1.5, "Text_Field": "Strawberry", "ColorRef": 1},
-    ]);
-    data = await gristApi.fetchTable('Table1');
+    ]});
+    data = await gristApi.fetchTable({tableName: 'Table1'});
     assertData(data, initialData.Table1);
   });
 
   it('should support varied updateRecords', async function() {
     // Mismatched column sets work too.
-    await gristApi.updateRecords('Table1', [
+    await gristApi.updateRecords({tableName: 'Table1', records: [
       {"id": 1, "Num": -5, "Text_Field": "snapple"},
       {"id": 4, "Num": -1.5, "ColorRef": 2, "ChoiceList": ['L', 'Bar']},
-    ]);
+    ]});
 
-    let data = await gristApi.fetchTable('Table1');
+    let data = await gristApi.fetchTable({tableName: 'Table1'});
     assertData(data, [
-      ['id',  'Text_Field', 'Num',  'Date',               'ColorRef', 'ColorRef_Value', 'ChoiceList'],
-      [1,     'snapple',    -5,     datets(2019, 6, 26),  1,          "RED",            ['L', 'Foo', 'Bar']],
-      [2,     'Orange',     8,      datets(2019, 5, 1),   2,          "ORANGE",         ['L', 'Baz 2']],
-      [3,     'Melon',      12,     datets(2019, 4, 2),   3,          "GREEN",          null],
-      [4,     'Strawberry', -1.5,   datets(2019, 3, 3),   2,          "ORANGE",         ['L', 'Bar']],
+      ['id',  'Text_Field', 'Num',  'Date',               'ColorRef', 'ChoiceList'],
+      [1,     'snapple',    -5,     datets(2019, 6, 26),  1,          ['L', 'Foo', 'Bar']],
+      [2,     'Orange',     8,      datets(2019, 5, 1),   2,          ['L', 'Baz 2']],
+      [3,     'Melon',      12,     datets(2019, 4, 2),   3,          null],
+      [4,     'Strawberry', -1.5,   datets(2019, 3, 3),   2,          ['L', 'Bar']],
     ]);
 
     // Revert the changes.
-    await gristApi.updateRecords('Table1', [
+    await gristApi.updateRecords({tableName: 'Table1', records: [
       {"id": 1, "Num": 5, "Text_Field": "Apple"},
       {"id": 4, "Num": 1.5, "ColorRef": 1, "ChoiceList": ['L', 'Baz 2', 'Foo']},
-    ]);
+    ]});
 
-    data = await gristApi.fetchTable('Table1');
+    data = await gristApi.fetchTable({tableName: 'Table1'});
     assertData(data, initialData.Table1);
   });
 
   it('should support syncTable', async function() {
-    await gristApi.syncTable('Table1', [
+    await gristApi.syncTable({tableName: 'Table1', keyColIds: ['Text_Field'], records: [
       {Text_Field: 'Apple', Num: 17, Date: datets(2020, 5, 1)},
       {Text_Field: 'Banana', Num: 33, Date: datets(2020, 5, 2)},
       {Text_Field: 'Melon', Num: 28, Date: null},
-    ], ['Text_Field']);
+    ]});
 
-    let data = await gristApi.fetchTable('Table1');
+    let data = await gristApi.fetchTable({tableName: 'Table1'});
     assertData(data, [
-      ['id',  'Text_Field', 'Num',  'Date',               'ColorRef', 'ColorRef_Value', 'ChoiceList'],
-      [1,     'Apple',      17,     datets(2020, 5, 1),   1,          "RED",            ['L', 'Foo', 'Bar']],
-      [2,     'Orange',     8,      datets(2019, 5, 1),   2,          "ORANGE",         ['L', 'Baz 2']],
-      [3,     'Melon',      28,     null,                 3,          "GREEN",          null],
-      [4,     'Strawberry', 1.5,    datets(2019, 3, 3),   1,          "RED",            ['L', 'Baz 2', 'Foo']],
-      [5,     'Banana',     33,     datets(2020, 5, 2),   0,          null,             null],
+      ['id',  'Text_Field', 'Num',  'Date',               'ColorRef', 'ChoiceList'],
+      [1,     'Apple',      17,     datets(2020, 5, 1),   1,          ['L', 'Foo', 'Bar']],
+      [2,     'Orange',     8,      datets(2019, 5, 1),   2,          ['L', 'Baz 2']],
+      [3,     'Melon',      28,     null,                 3,          null],
+      [4,     'Strawberry', 1.5,    datets(2019, 3, 3),   1,          ['L', 'Baz 2', 'Foo']],
+      [5,     'Banana',     33,     datets(2020, 5, 2),   0,          null],
     ]);
 
-    await gristApi.syncTable('Table1', [
+    await gristApi.syncTable({tableName: 'Table1', keyColIds: ['Text_Field'], records: [
       {Text_Field: 'Apple',       ChoiceList: ['L', 'Foo', 'Bar']},
       {Text_Field: 'Strawberry',  ChoiceList: ['L', 'Baz 2']},
-    ], ['Text_Field']);
+    ]});
 
-    data = await gristApi.fetchTable('Table1');
+    data = await gristApi.fetchTable({tableName: 'Table1'});
     assertData(data, [
-      ['id',  'Text_Field', 'Num',  'Date',               'ColorRef', 'ColorRef_Value', 'ChoiceList'],
-      [1,     'Apple',      17,     datets(2020, 5, 1),   1,          "RED",            ['L', 'Foo', 'Bar']],
-      [2,     'Orange',     8,      datets(2019, 5, 1),   2,          "ORANGE",         ['L', 'Baz 2']],
-      [3,     'Melon',      28,     null,                 3,          "GREEN",          null],
-      [4,     'Strawberry', 1.5,    datets(2019, 3, 3),   1,          "RED",            ['L', 'Baz 2']],
-      [5,     'Banana',     33,     datets(2020, 5, 2),   0,          null,             null],
+      ['id',  'Text_Field', 'Num',  'Date',               'ColorRef', 'ChoiceList'],
+      [1,     'Apple',      17,     datets(2020, 5, 1),   1,          ['L', 'Foo', 'Bar']],
+      [2,     'Orange',     8,      datets(2019, 5, 1),   2,          ['L', 'Baz 2']],
+      [3,     'Melon',      28,     null,                 3,          null],
+      [4,     'Strawberry', 1.5,    datets(2019, 3, 3),   1,          ['L', 'Baz 2']],
+      [5,     'Banana',     33,     datets(2020, 5, 2),   0,          null],
     ]);
 
     // Revert data, and delete the newly-added record.
-    await gristApi.syncTable('Table1', [
+    await gristApi.syncTable({tableName: 'Table1', keyColIds: ['Text_Field'], records: [
       {Text_Field: 'Apple', Num: 5, Date: datets(2019, 6, 26)},
       {Text_Field: 'Melon', Num: 12, Date: datets(2019, 4, 2)},
       {Text_Field: 'Strawberry', ChoiceList: ['L', 'Baz 2', 'Foo']},
-    ], ['Text_Field']);
-    await gristApi.deleteRecords('Table1', [5]);
+    ]});
+    await gristApi.deleteRecords({tableName: 'Table1', recordIds: [5]});
 
     // Check we are back to where we started.
-    data = await gristApi.fetchTable('Table1');
+    data = await gristApi.fetchTable({tableName: 'Table1'});
     assertData(data, initialData.Table1);
   });
 
   it('should support syncTable with filters', async function() {
     // syncTable should check that filters are a subset of key columns.
     await assert.isRejected(
-      gristApi.syncTable('Table1', [
+      gristApi.syncTable({tableName: 'Table1', keyColIds: ['Text_Field'], filters: {"ColorRef": [1]}, records: [
         {Text_Field: 'Melon', Num: 100, Date: datets(2020, 6, 1)},
         {Text_Field: 'Strawberry', Num: 200, Date: datets(2020, 6, 2)},
-      ], ['Text_Field'], {filters: {"ColorRef": [1]}}),
+      ]}),
       /key columns.*filter columns/);
 
     // If columns don't match the filter, the records are ignored.
-    await gristApi.syncTable('Table1', [
+    await gristApi.syncTable({tableName: 'Table1', keyColIds: ['Text_Field', 'ColorRef'],
+                              filters: {"ColorRef": [1]}, records: [
       {Text_Field: 'Melon', Num: 100, Date: datets(2020, 6, 1)},
       {Text_Field: 'Strawberry', Num: 200, Date: datets(2020, 6, 2)},
       {Text_Field: 'Melon', Num: 100, Date: datets(2020, 6, 1), ColorRef: 3},
       {Text_Field: 'Strawberry', Num: 200, Date: datets(2020, 6, 2), ColorRef: 3},
-    ], ['Text_Field', 'ColorRef'], {filters: {"ColorRef": [1]}});
+    ]});
 
     // Nothing changed because the first call was rejected, and in the second, the pass-in records
     // didn't match the filter.
-    let data = await gristApi.fetchTable('Table1');
+    let data = await gristApi.fetchTable({tableName: 'Table1'});
     assertData(data, initialData.Table1);
 
     async function sync() {
       // Try again with the matching filter column included.
-      await gristApi.syncTable('Table1', [
+      await gristApi.syncTable({tableName: 'Table1', keyColIds: ['Text_Field', 'ColorRef'],
+                                filters: {"ColorRef": [1]}, records: [
         {Text_Field: 'Melon', Num: 100, Date: datets(2020, 6, 1), ColorRef: 1},
         {Text_Field: 'Strawberry', Num: 200, Date: datets(2020, 6, 2), ColorRef: 1},
-      ], ['Text_Field', 'ColorRef'], {filters: {"ColorRef": [1]}});
+      ]});
 
       // Note that Melon got added because it didn't exist in the filtered view.
-      data = await gristApi.fetchTable('Table1');
+      data = await gristApi.fetchTable({tableName: 'Table1'});
       assertData(data, [
-        ['id',  'Text_Field', 'Num',  'Date',               'ColorRef', 'ColorRef_Value'],
-        [1,     'Apple',      5,      datets(2019, 6, 26),  1,          "RED"],
-        [2,     'Orange',     8,      datets(2019, 5, 1),   2,          "ORANGE"],
-        [3,     'Melon',      12,     datets(2019, 4, 2),   3,          "GREEN"],
-        [4,     'Strawberry', 200,    datets(2020, 6, 2),   1,          "RED"],
-        [5,     'Melon',      100,    datets(2020, 6, 1),   1,          "RED"],
+        ['id',  'Text_Field', 'Num',  'Date',               'ColorRef'],
+        [1,     'Apple',      5,      datets(2019, 6, 26),  1],
+        [2,     'Orange',     8,      datets(2019, 5, 1),   2],
+        [3,     'Melon',      12,     datets(2019, 4, 2),   3],
+        [4,     'Strawberry', 200,    datets(2020, 6, 2),   1],
+        [5,     'Melon',      100,    datets(2020, 6, 1),   1],
       ]);
     }
 
@@ -276,126 +299,504 @@ describe("grist-api", function() {
     await sync();
 
     // Revert data, and delete the newly-added record.
-    await gristApi.syncTable('Table1', [
+    await gristApi.syncTable({tableName: 'Table1', keyColIds: ['Text_Field', 'ColorRef'],
+                              filters: {"ColorRef": [1]}, records: [
       {Text_Field: 'Strawberry', Num: 1.5, Date: datets(2019, 3, 3), ColorRef: 1},
-    ], ['Text_Field', 'ColorRef'], {filters: {"ColorRef": [1]}});
-    await gristApi.deleteRecords('Table1', [5]);
+    ]});
+    await gristApi.deleteRecords({tableName: 'Table1', recordIds: [5]});
 
     // Check we are back to where we started.
-    data = await gristApi.fetchTable('Table1');
+    data = await gristApi.fetchTable({tableName: 'Table1'});
     assertData(data, initialData.Table1);
   });
 
+  it('should support syncTable with deleteMissing', async function() {
+    // Only rows within the scope of the filters are deleted.
+    const result = await gristApi.syncTable({tableName: 'Table1', keyColIds: ['Text_Field', 'ColorRef'],
+                                             filters: {ColorRef: [1]}, deleteMissing: true,
+                                             records: [{Text_Field: 'Apple', ColorRef: 1, Num: 6}]});
+    assert.deepEqual(result, {numAdded: 0, numUpdated: 1, numDeleted: 1});
+    assertData(await gristApi.fetchTable({tableName: 'Table1'}), [
+      ['id',  'Text_Field', 'Num'],
+      [1,     'Apple',      6],
+      [2,     'Orange',     8],
+      [3,     'Melon',      12],
+    ]);
+
+    // With maxDeletePercent, nothing changes if more rows would be deleted.
+    const sync = (maxDeletePercent: number) => gristApi.syncTable({
+      tableName: 'Table1', keyColIds: ['Text_Field'], deleteMissing: true, maxDeletePercent,
+      records: [{Text_Field: 'Apple', Num: 7}, {Text_Field: 'Kiwi', Num: 3}]});
+    await assert.isRejected(sync(50), /would delete 2 of 3 rows \(66\.7%\), more than maxDeletePercent of 50%/);
+    assert.lengthOf(server.getRecords(docId, 'Table1'), 3);
+    assert.deepEqual(await sync(70), {numAdded: 1, numUpdated: 1, numDeleted: 2});
+    assert.deepEqual(server.getRecords(docId, 'Table1').map((r) => [r.Text_Field, r.Num]), [['Apple', 7], ['Kiwi', 3]]);
+  });
+
+  it('should support syncTable using the server-side upsert', async function() {
+    await gristApi.syncTable({tableName: 'Table1', keyColIds: ['Text_Field'], strategy: 'server-upsert',
+                              records: [{Text_Field: 'Orange', Num: 9}, {Text_Field: 'Lime', Num: 4}]});
+    assertData(await gristApi.fetchTable({tableName: 'Table1'}), [
+      ['id',  'Text_Field', 'Num'],
+      [1,     'Apple',      5],
+      [2,     'Orange',     9],
+      [3,     'Melon',      12],
+      [4,     'Strawberry', 1.5],
+      [5,     'Lime',       4],
+    ]);
+    await assert.isRejected(gristApi.syncTable({tableName: 'Table1', keyColIds: ['Text_Field'],
+                                                strategy: 'server-upsert', deleteMissing: true, records: []}),
+      /does not support deleteMissing/);
+  });
+
+  it('should report the keys syncTable would change in dryrun mode', async function() {
+    const dryrunApi = makeApi({dryrun: true});
+    const result = await dryrunApi.syncTable({tableName: 'Table1', keyColIds: ['Text_Field'], deleteMissing: true,
+                                              records: [{Text_Field: 'Apple', Num: 6}, {Text_Field: 'Orange', Num: 8},
+                                                        {Text_Field: 'Kiwi', Num: 3}]});
+    assert.deepEqual(result, {numAdded: 1, numUpdated: 1, numDeleted: 2});
+    assert.deepEqual(dryrunApi.getDryRunPlan().map((e) => [e.method, e.action, e.keysToAdd, e.keysToUpdate,
+                                                           e.keysToDelete, e.numRows]), [
+      [undefined, 'SyncTable', [['Kiwi']], [['Apple']], [['Melon'], ['Strawberry']], undefined],
+      ['PATCH', 'UpdateRecords', undefined, undefined, undefined, 1],
+      ['POST', 'AddRecords', undefined, undefined, undefined, 1],
+      ['POST', 'BulkRemoveRecord', undefined, undefined, undefined, 2],
+    ]);
+    assertData(await gristApi.fetchTable({tableName: 'Table1'}), initialData.Table1);
+    assert.isTrue(server.requests.every((req) => req.method === 'GET'));
+  });
+
   it('should support chunking', async function() {
-    // Using chunk_size should produce 5 requests (4 of 12 records, and 1 of 2). We can tell that
-    // by examining the recorded fixture in "test/fixtures/replay/test_chunking", and we test by
-    // using the requestNum variable, incremented for each request by axios interceptor.
+    // Using chunkSize should produce 5 requests (4 of 12 records, and 1 of 2), as recorded by the
+    // fake server.
     const myRange = range(50);
     let startRequestNum: number;
 
-    // tslint:disable-next-line:no-shadowed-variable
-    const gristApi = new GristDocAPI(DOC_URL, {apiKey: LIVE ? undefined : "unused", chunkSize: 12});
+    const chunkedApi = makeApi({chunkSize: 12});
 
-    startRequestNum = requestNum;
-    const rowNums = await gristApi.addRecords(
-      'Table1', myRange.map((n) => ({Text_Field: "Chunk", Num: n})));
+    startRequestNum = server.requests.length;
+    const rowNums = await chunkedApi.addRecords({tableName: 'Table1',
+      records: myRange.map((n) => ({Text_Field: "Chunk", Num: n}))});
     assert.deepEqual(rowNums, myRange.map((n) => 5 + n));
-    assert.equal(requestNum - startRequestNum, 5);
+    assert.equal(server.requests.length - startRequestNum, 5);
 
     // Verify data is correct.
-    let data = await gristApi.fetchTable('Table1');
+    let data = await chunkedApi.fetchTable({tableName: 'Table1'});
     assertData(data, [
       ...initialData.Table1,
-      ...myRange.map((n) => [5 + n, 'Chunk', n, null, 0, null, null])
+      ...myRange.map((n) => [5 + n, 'Chunk', n, null, 0, null])
     ]);
 
     // Update data using chunking.
-    startRequestNum = requestNum;
-    await gristApi.updateRecords('Table1',
-      myRange.map((n) => ({id: 5 + n, Text_Field: "Peanut Butter", ColorRef: 2})));
-    assert.equal(requestNum - startRequestNum, 5);
+    startRequestNum = server.requests.length;
+    await chunkedApi.updateRecords({tableName: 'Table1',
+      records: myRange.map((n) => ({id: 5 + n, Text_Field: "Peanut Butter", ColorRef: 2}))});
+    assert.equal(server.requests.length - startRequestNum, 5);
 
-    data = await gristApi.fetchTable('Table1');
+    data = await chunkedApi.fetchTable({tableName: 'Table1'});
     assertData(data, [
       ...initialData.Table1,
-      ...myRange.map((n) => [5 + n, 'Peanut Butter', n, null, 2, 'ORANGE', null])
+      ...myRange.map((n) => [5 + n, 'Peanut Butter', n, null, 2, null])
     ]);
 
     // Delete data using chunking.
-    startRequestNum = requestNum;
-    await gristApi.deleteRecords('Table1', myRange.map((n) => 5 + n));
-    assert.equal(requestNum - startRequestNum, 5);
-    data = await gristApi.fetchTable('Table1');
+    startRequestNum = server.requests.length;
+    await chunkedApi.deleteRecords({tableName: 'Table1', recordIds: myRange.map((n) => 5 + n)});
+    assert.equal(server.requests.length - startRequestNum, 5);
+    data = await chunkedApi.fetchTable({tableName: 'Table1'});
     assertData(data, initialData.Table1);
   });
 
+  it("should send chunks in parallel, reporting progress", async function() {
+    const chunkedApi = makeApi({chunkSize: 2, concurrency: 3});
+    const progress: number[] = [];
+    const names = ['A', 'B', 'C', 'D', 'E', 'F', 'G'];
+    const rowIds = await chunkedApi.addRecords({tableName: 'Table1', records: names.map((n) => ({Text_Field: n})),
+                                                onProgress: (p) => progress.push(p.rowsDone)});
+    // Chunks may complete in any order, but progress always grows to the total.
+    assert.lengthOf(progress, 4);
+    assert.deepEqual(progress, progress.slice().sort((a, b) => a - b));
+    assert.equal(progress[3], 7);
+    const byId = new Map(server.getRecords(docId, 'Table1').map((r) => [r.id, r.Text_Field]));
+    assert.deepEqual(rowIds.map((id) => byId.get(id)), names);
+
+    await chunkedApi.deleteRecords({tableName: 'Table1', recordIds: rowIds, concurrency: 2});
+    assertData(await chunkedApi.fetchTable({tableName: 'Table1'}), initialData.Table1);
+  });
+
+  it("should support iterateTable", async function() {
+    const pages = [];
+    for await (const page of gristApi.iterateTable({tableName: 'Table1', pageSize: 3})) {
+      pages.push(page.map((r) => r.id));
+    }
+    assert.deepEqual(pages, [[1, 2, 3], [4]]);
+
+    // With filters, pages skip the rows that don't match.
+    pages.length = 0;
+    for await (const page of gristApi.iterateTable({tableName: 'Table1', pageSize: 2, filters: {ColorRef: [1]}})) {
+      pages.push(page.map((r) => r.id));
+    }
+    assert.deepEqual(pages, [[1], [4]]);
+  });
+
+  it("should support querySql with a server-side time limit", async function() {
+    const rows = await gristApi.querySql({sql: 'SELECT id FROM Table1 WHERE id > ? ORDER BY id LIMIT ?',
+                                          args: [2, 10], queryTimeoutMs: 500, timeout: 5000});
+    assert.deepEqual(rows, [{id: 3}, {id: 4}]);
+    assert.deepInclude(server.requests[server.requests.length - 1], {method: 'POST', body: {
+      sql: 'SELECT id FROM Table1 WHERE id > ? ORDER BY id LIMIT ?', args: [2, 10], timeout: 500}});
+  });
+
+  it("should support columns and attachments", async function() {
+    assert.deepEqual(await gristApi.addColumns({tableId: 'Table1', columns: [{id: 'Num', fields: {type: 'Int'}}]}),
+      ['Num2']);
+    await gristApi.deleteColumn({tableId: 'Table1', colId: 'Num2'});
+    assert.deepEqual((await gristApi.listColumns({tableId: 'Table1'})).map((c) => c.id),
+      ['Text_Field', 'Num', 'Date', 'ColorRef', 'ChoiceList']);
+
+    const ids = await gristApi.attach({files: [{data: Buffer.from('hello'), filename: 'hello.txt'}]});
+    assert.deepEqual(ids, [1]);
+    const attachments = await gristApi.listAttachments();
+    assert.deepEqual(attachments.map((a) => [a.id, a.fileName, a.fileSize]), [[1, 'hello.txt', 5]]);
+    assert.equal(new Date(attachments[0].timeUploaded!).toISOString(), attachments[0].timeUploaded);
+    assert.equal(String(await gristApi.downloadAttachment({attachmentId: 1})), 'hello');
+  });
+
+  it("should generate table types, for typed table handles", async function() {
+    await gristApi.addColumns({tableId: 'Colors', columns: [{id: 'Shade', fields: {type: 'Any', isFormula: true}}]});
+    assert.equal(await generateTableTypes(gristApi), [
+      `// Generated by grist-api from the schema of document ${docId}.`,
+      `import {CellValue} from 'grist-api';`,
+      ``,
+      `export interface Colors {`,
+      `  Name: string | null;`,
+      `  Shade: CellValue;  // formula`,
+      `}`,
+      ``,
+      `export interface Table1 {`,
+      `  Text_Field: string | null;`,
+      `  Num: number | null;`,
+      `  Date: number | null;`,
+      `  ColorRef: number | null;`,
+      `  ChoiceList: ['L', ...string[]] | null;`,
+      `}`,
+      ``,
+    ].join('\n'));
+
+    interface Table1 { Text_Field: string | null; Num: number | null; }
+    const table = gristApi.table<Table1>('Table1');
+    await table.update([{id: 1, Num: 6}]);
+    assert.deepEqual((await table.fetch({filters: {Text_Field: ['Apple']}})).map((r) => r.Num), [6]);
+
+    // Call options are passed through.
+    const progress: number[] = [];
+    await table.add([{Text_Field: 'Fig'}], {onProgress: (p) => progress.push(p.rowsDone)});
+    assert.deepEqual(progress, [1]);
+    const controller = new AbortController();
+    controller.abort();
+    await assert.isRejected(table.fetch({signal: controller.signal}), AbortError);
+    await assert.isRejected(table.sync([{Text_Field: 'Kiwi'}], ['Text_Field'], {signal: controller.signal}),
+      AbortError);
+  });
+
+  it("should support downloads", async function() {
+    const dump = JSON.parse(Buffer.from(await gristApi.downloadDoc({nohistory: true})).toString());
+    assert.deepEqual(dump.tables.map((t: {id: string}) => t.id), ['Colors', 'Table1']);
+    assert.equal(server.requests[server.requests.length - 1].path, `/docs/${docId}/download?nohistory=true`);
+
+    const csv = await gristApi.downloadCsv({tableId: 'Colors', header: 'colId'});
+    assert.equal(Buffer.from(csv).toString(), 'Name\r\nRED\r\nORANGE\r\nGREEN\r\n');
+    const stream = await gristApi.downloadCsv({tableId: 'Table1', stream: true});
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) { chunks.push(chunk as Buffer); }
+    assert.deepEqual(Buffer.concat(chunks).toString().split('\r\n').slice(0, 2), [
+      'Text_Field,Num,Date,ColorRef,ChoiceList',
+      'Apple,5,2019-06-26,1,"Foo,Bar"',
+    ]);
+
+    const schema = await gristApi.downloadTableSchema({tableId: 'Table1', header: 'colId'});
+    assert.deepEqual(schema.schema.fields.map((f) => [f.name, f.type]), [
+      ['Text_Field', 'string'], ['Num', 'number'], ['Date', 'date'], ['ColorRef', 'string'], ['ChoiceList', 'string'],
+    ]);
+    assert.include(schema, {title: 'Table1', format: 'csv'});
+    await assert.isRejected(gristApi.downloadCsv({tableId: 'Unicorn'}), NotFoundError);
+  });
+
+  it("should support copying, forking and replacing docs", async function() {
+    const templateId = await gristApi.copyDoc({workspaceId, documentName: 'Template', asTemplate: true});
+    assert.deepEqual(await gristApi.fetchTable({tableName: 'Table1', docId: templateId}), []);
+
+    const fork = await gristApi.forkDoc();
+    await gristApi.addRecords({tableName: 'Table1', records: [{Text_Field: 'Kiwi'}], docId: fork.docId});
+    assert.lengthOf(server.getRecords(docId, 'Table1'), 4);
+
+    await gristApi.replaceDoc({sourceDocId: fork.docId, docId: templateId});
+    assert.deepEqual(server.getRecords(templateId, 'Table1').map((r) => r.Text_Field),
+      ['Apple', 'Orange', 'Melon', 'Strawberry', 'Kiwi']);
+    await assert.isRejected(gristApi.replaceDoc({}), /requires sourceDocId or snapshotId/);
+  });
+
+  it("should resolve paths using cached listings", async function() {
+    const resolved = await gristApi.resolvePath({path: 'Acme/Home/Fruit'});
+    assert.equal(resolved.doc!.id, docId);
+    assert.equal((await gristApi.resolvePath({path: ['acme', 'Home']})).workspace!.id, workspaceId);
+    await assert.isRejected(gristApi.resolvePath({path: 'Acme/Away'}), /Workspace "Away" not found/);
+    const tree = await gristApi.getSiteTree();
+    assert.deepEqual(tree.map((org) => [org.name, org.workspaces.map((ws) => ws.name)]), [['Acme', ['Home']]]);
+    assert.lengthOf(server.requests, 2);
+
+    // Creating a doc through the API invalidates the cache.
+    await gristApi.createDoc({workspaceId, name: 'Vegetables'});
+    assert.equal((await gristApi.resolvePath({path: 'Acme/Home/Vegetables'})).doc!.name, 'Vegetables');
+  });
+
+  it("should not share cached listings between callers or servers", async function() {
+    const tree = await gristApi.getSiteTree();
+    tree[0].workspaces.pop();
+    (await gristApi.getWorkspaceByName({name: 'Home', orgId: tree[0].id}))!.name = 'Changed';
+    assert.deepEqual((await gristApi.getSiteTree()).map((org) => org.workspaces.map((ws) => ws.name)), [['Home']]);
+
+    const other = new FakeGristServer({apiKey: 'test-key'});
+    const otherDocId = other.addDoc(other.addWorkspace(other.addOrg({name: 'Other'}), 'Away'), 'Remote');
+    try {
+      gristApi.setDocId(`${await other.listen()}/doc/${otherDocId}`);
+      assert.deepEqual((await gristApi.getSiteTree()).map((org) => org.name), ['Other']);
+      await assert.isRejected(gristApi.resolvePath({path: 'Acme/Home'}), /Org "Acme" not found/);
+    } finally {
+      await other.close();
+    }
+  });
+
   it('should produce helpful errors', async function() {
-    await assert.isRejected(gristApi.fetchTable('Unicorn'), /Table not found.*Unicorn/);
-    await assert.isRejected(gristApi.fetchTable('Table1', {"ColorRef": [1], "ColorBoom": [2]}), /ColorBoom/);
-    await assert.isRejected(gristApi.addRecords('Table1', [{"Text_Field": "Beets", "NumX": 2}]),
+    await assert.isRejected(gristApi.fetchTable({tableName: 'Unicorn'}), /Table not found.*Unicorn/);
+    await assert.isRejected(gristApi.fetchTable({tableName: 'Table1', filters: {"ColorRef": [1], "ColorBoom": [2]}}),
+      /ColorBoom/);
+    await assert.isRejected(gristApi.addRecords({tableName: 'Table1', records: [{"Text_Field": "Beets", "NumX": 2}]}),
       /Invalid column.*NumX/);
   });
 
+  it("should throw structured errors", async function() {
+    const err = await gristApi.fetchTable({tableName: 'Unicorn'}).catch((e) => e);
+    assert.instanceOf(err, NotFoundError);
+    assert.include(err, {status: 404, method: 'GET', docId, tableName: 'Unicorn', retryable: false});
+
+    // A failing chunk reports which one it was, and how many rows were committed before it.
+    const chunkedApi = makeApi({chunkSize: 2});
+    const records: IRecord[] = [{Text_Field: 'A'}, {Text_Field: 'B'}, {Text_Field: 'C'},
+                                {Text_Field: 'D', Color: 'RED'}, {Text_Field: 'E'}];
+    const chunkErr = await chunkedApi.addRecords({tableName: 'Table1', records}).catch((e) => e);
+    assert.instanceOf(chunkErr, ValidationError);
+    assert.include(chunkErr, {status: 400, chunkIndex: 1, rowsCommitted: 2});
+    assert.lengthOf(server.getRecords(docId, 'Table1'), 6);
+
+    // Deletions are sent to /apply, but errors still name the table.
+    const deleteErr = await gristApi.deleteRecords({tableName: 'Unicorn', recordIds: [1]}).catch((e) => e);
+    assert.instanceOf(deleteErr, NotFoundError);
+    assert.include(deleteErr, {method: 'POST', docId, tableName: 'Unicorn', chunkIndex: 0, retryable: false});
+  });
+
+  it("should stop between chunks when aborted", async function() {
+    const chunkedApi = makeApi({chunkSize: 2});
+    const controller = new AbortController();
+    const records: IRecord[] = ['A', 'B', 'C', 'D', 'E'].map((n) => ({Text_Field: n}));
+    const err = await chunkedApi.addRecords({tableName: 'Table1', records, signal: controller.signal,
+                                             onProgress: () => controller.abort()}).catch((e) => e);
+    assert.instanceOf(err, AbortError);
+    assert.include(err, {method: 'POST', tableName: 'Table1', chunkIndex: 1, rowsCommitted: 2, retryable: false});
+    assert.lengthOf(server.getRecords(docId, 'Table1'), 6);
+
+    // Calls with an aborted signal fail without making a request.
+    const numRequests = server.requests.length;
+    await assert.isRejected(gristApi.listTables({signal: controller.signal}), AbortError);
+    assert.lengthOf(server.requests, numRequests);
+  });
+
+  it("should report the rows committed by each phase when syncTable fails", async function() {
+    const chunkedApi = makeApi({chunkSize: 2});
+    const records: IRecord[] = [{Text_Field: 'Apple', Num: 6}, {Text_Field: 'A'}, {Text_Field: 'B'},
+                                {Text_Field: 'C', Color: 'RED'}, {Text_Field: 'D'}];
+    const err = await chunkedApi.syncTable({tableName: 'Table1', keyColIds: ['Text_Field'], records})
+      .catch((e) => e);
+    assert.instanceOf(err, ValidationError);
+    assert.include(err, {chunkIndex: 1, rowsCommitted: 2});
+    assert.deepEqual(err.syncCommitted, {numUpdated: 1, numAdded: 2, numDeleted: 0});
+    assert.lengthOf(server.getRecords(docId, 'Table1'), 6);
+  });
+
+  it("should stop waiting to retry when aborted", async function() {
+    const controller = new AbortController();
+    // Nothing listens on port 1, so the request fails before it is sent, and would be retried.
+    const api = new GristDocAPI({server: 'http://127.0.0.1:1', apiKey: 'test-key', retry: {initialDelayMs: 60000},
+                                 onError: () => setTimeout(() => controller.abort(), 10)});
+    api.setDocId(docId);
+    const start = Date.now();
+    await assert.isRejected(api.listTables({signal: controller.signal}), AbortError);
+    assert.isBelow(Date.now() - start, 5000);
+  });
+
+  it("should stop a chunked call waiting to retry a chunk when aborted", async function() {
+    // Serve requests with the fake server, except that the second chunk of additions is rate-limited.
+    let numAdds = 0;
+    const limiter = http.createServer((req, res) => {
+      if (req.method === 'POST' && req.url!.endsWith('/tables/Table1/data') && ++numAdds === 2) {
+        res.writeHead(429, {'Content-Type': 'application/json'});
+        res.end(JSON.stringify({error: 'Too many requests'}));
+        return;
+      }
+      server.handleRequest(req, res);
+    });
+    await new Promise<void>((resolve) => limiter.listen(0, '127.0.0.1', () => resolve()));
+    try {
+      const controller = new AbortController();
+      const api = new GristDocAPI({server: `http://127.0.0.1:${(limiter.address() as {port: number}).port}`,
+                                   apiKey: 'test-key', chunkSize: 2, retry: {initialDelayMs: 60000},
+                                   onError: () => setTimeout(() => controller.abort(), 10)});
+      api.setDocId(docId);
+      const records: IRecord[] = [{Text_Field: 'Apple', Num: 6}, ...['A', 'B', 'C', 'D'].map((n) => ({Text_Field: n}))];
+      const start = Date.now();
+      const err = await api.syncTable({tableName: 'Table1', keyColIds: ['Text_Field'], records,
+                                       signal: controller.signal}).catch((e) => e);
+      assert.isBelow(Date.now() - start, 5000);
+      assert.instanceOf(err, AbortError);
+      assert.include(err, {tableName: 'Table1', chunkIndex: 1, rowsCommitted: 2});
+      assert.deepEqual(err.syncCommitted, {numUpdated: 1, numAdded: 2, numDeleted: 0});
+      assert.lengthOf(server.getRecords(docId, 'Table1'), 6);
+    } finally {
+      await new Promise((resolve) => limiter.close(resolve));
+    }
+  });
+
+  it("should log requests and call hooks", async function() {
+    const messages: string[] = [];
+    const log = (level: string) => (message: string) => messages.push(`${level}: ${message}`);
+    const events: string[] = [];
+    const api = makeApi({
+      logger: {debug: log('debug'), info: log('info'), warn: log('warn'), error: log('error')},
+      onRequest: (info) => events.push(`request ${info.method} ${info.url} #${info.attempt} ${info.payloadSize}`),
+      onResponse: (info) => events.push(`response ${info.status}`),
+      onError: (info) => events.push(`error ${info.status} ${info.error.message}`),
+    });
+    await api.addRecords({tableName: 'Table1', records: [{Text_Field: 'Fig'}]});
+    await assert.isRejected(api.fetchTable({tableName: 'Unicorn'}));
+
+    const payloadSize = JSON.stringify({Text_Field: ['Fig']}).length;
+    assert.deepEqual(events, [
+      `request POST ${serverUrl}/docs/${docId}/tables/Table1/data #1 ${payloadSize}`,
+      'response 200',
+      `request GET ${serverUrl}/docs/${docId}/tables/Unicorn/data #1 undefined`,
+      'error 404 Request failed with status code 404',
+    ]);
+    assert.deepEqual(messages, [
+      `debug: POST docs/${docId}/tables/Table1/data (${payloadSize} bytes)`,
+      `debug: GET docs/${docId}/tables/Unicorn/data`,
+      `error: GET docs/${docId}/tables/Unicorn/data failed: Request failed with status code 404`,
+    ]);
+  });
+
   function withUnsetApiKey(testCase: () => Promise<void>) {
-    // Ignore GRIST_API_KEY in the actual environment, and don't use the real HOME, so that the
-    // test doesn't depend on whether there is a ~/.grist-api-key file for the user running the
-    // test. These tests assume a blank slate for API key settings.
-    const origHome = process.env.HOME;
-    const origEnvVar = process.env.GRIST_API_KEY;
+    // Ignore GRIST_API_KEY and GRIST_API_CONFIG in the actual environment, and don't use the real
+    // HOME, so that the test doesn't depend on whether there are ~/.grist-api-key or
+    // ~/.grist-api.json files for the user running the test. These tests assume a blank slate for
+    // API key settings.
+    const names = ['HOME', 'GRIST_API_KEY', 'GRIST_API_CONFIG'];
     return async () => {
+      const origValues = names.map((name) => process.env[name]);
       process.env.HOME = '/tmp/grist-api-nonexistent';
       delete process.env.GRIST_API_KEY;
+      delete process.env.GRIST_API_CONFIG;
       try {
         return await testCase();
       } finally {
-        process.env.HOME = origHome;
-        if (origEnvVar !== undefined) {
-          process.env.GRIST_API_KEY = origEnvVar;
-        }
+        names.forEach((name, i) => {
+          if (origValues[i] === undefined) { delete process.env[name]; } else { process.env[name] = origValues[i]; }
+        });
       }
     };
   }
 
   it('should show helpful errors when API key is not set', withUnsetApiKey(async function() {
-    let api = new GristDocAPI(DOC_URL);
-    // Key wasn't explicitly given, but apparently was needed, so check that some info about that
-    // gets mentioned.
-    await assert.isRejected(api.fetchTable('Table1'),
-      /No view access.*API key not given.*GRIST_API_KEY env.*\.grist-api-key/);
-
-    api = new GristDocAPI(DOC_URL, {apiKey: ''});
-    // Key was explicitly given as empty, so nothing to add about it.
-    await assert.isRejected(api.fetchTable('Table1'),
-      /No view access$/);
-
-    const origEnvVar = process.env.GRIST_API_KEY;
+    let api = new GristDocAPI({server: serverUrl});
+    api.setDocId(docId);
+    // Key wasn't explicitly given, but was needed, so check that some info about that gets mentioned.
+    await assert.isRejected(api.fetchTable({tableName: 'Table1'}),
+      /API key not given.*GRIST_API_KEY env.*\.grist-api-key/);
+
+    api = new GristDocAPI({server: serverUrl, apiKey: 'invalid'});
+    api.setDocId(docId);
+    // Key was explicitly given, so nothing to add about it.
+    await assert.isRejected(api.fetchTable({tableName: 'Table1'}), /invalid API key$/);
+  }));
+
+  it('should find the default API key for a server', withUnsetApiKey(async function() {
+    await assert.isRejected(getAPIKey(serverUrl), /API key not given/);
+    const configPath = path.join(os.tmpdir(), `grist-api-profiles-${process.pid}.json`);
+    await fse.writeJson(configPath, {profiles: {fake: {server: serverUrl, apiKey: 'profile-key'}}});
     try {
-      process.env.GRIST_API_KEY = '';
-      // Key was explicitly given as empty via env var, so nothing to add about it.
-      api = new GristDocAPI(DOC_URL);
-      await assert.isRejected(api.fetchTable('Table1'),
-        /No view access$/);
+      process.env.GRIST_API_CONFIG = configPath;
+      assert.equal(await getAPIKey(serverUrl), 'profile-key');
+      process.env.GRIST_API_KEY = 'env-key';
+      assert.equal(await getAPIKey(serverUrl), 'env-key');
     } finally {
-      process.env.GRIST_API_KEY = origEnvVar;
+      await fse.remove(configPath);
     }
-
-    api = new GristDocAPI(DOC_URL, {apiKey: 'invalid'});
-    // Key was explicitly given, so nothing to add about it.
-    await assert.isRejected(api.fetchTable('Table1'),
-      /invalid API key/);
   }));
 
   it('should allow access to public docs without API key', withUnsetApiKey(async function() {
-    const publicDocUrl = 'https://templates.getgrist.com/doc/lightweight-crm';
-    let api = new GristDocAPI(publicDocUrl);
-    assert.isAbove((await api.fetchTable('Contacts')).length, 5);
+    const publicServer = makeServer({});
+    try {
+      const api = new GristDocAPI({server: await publicServer.server.listen(), credentials: makeHeaderCredentials({})});
+      api.setDocId(publicServer.docId);
+      assertData(await api.fetchTable({tableName: 'Table1'}), initialData.Table1);
+    } finally {
+      await publicServer.server.close();
+    }
+  }));
+
+  it("should pick credentials by server profile, and refresh rejected ones", async function() {
+    const configPath = path.join(os.tmpdir(), `grist-api-profiles-${process.pid}.json`);
+    await fse.writeJson(configPath, {profiles: {
+      local: {server: 'http://127.0.0.1', apiKey: 'wrong-key'},
+      fake: {server: serverUrl, apiKey: 'test-key'},
+      other: {server: 'https://*.getgrist.com', apiKey: 'other-key'},
+    }});
+    try {
+      // The longest matching server wins, and it is taken from the URL given to setDocId.
+      const profileApi = new GristDocAPI({credentials: makeProfileCredentials({configPath})});
+      profileApi.setDocId(`${serverUrl}/doc/${docId}`);
+      assert.lengthOf(await profileApi.listTables({}), 2);
+      const localApi = new GristDocAPI({credentials: makeProfileCredentials({configPath, profile: 'local'}),
+                                        server: serverUrl});
+      await assert.isRejected(localApi.listOrgs(), AuthError);
+    } finally {
+      await fse.remove(configPath);
+    }
 
-    // We can also explicitly specify an empty api key.
-    api = new GristDocAPI(publicDocUrl, {apiKey: ''});
-    assert.isAbove((await api.fetchTable('Contacts')).length, 5);
+    const keys = ['expired-key', 'test-key'];
+    const credentials = makeCallbackCredentials(async () => keys.shift()!);
+    const callbackApi = new GristDocAPI({server: serverUrl, credentials});
+    assert.lengthOf(await callbackApi.listOrgs(), 1);
+    assert.lengthOf(await callbackApi.listOrgs(), 1);
+    assert.lengthOf(keys, 0);
 
-    // But explicitly specifying an invalid key will fail, as it should.
-    api = new GristDocAPI(publicDocUrl, {apiKey: 'invalid'});
-    await assert.isRejected(api.fetchTable('Contacts'), /invalid API key/);
-  }));
+    // Attachments are streamed as form data, which is rebuilt to send it again with the new key.
+    const filePath = path.join(os.tmpdir(), `grist-api-attach-${process.pid}.txt`);
+    await fse.writeFile(filePath, 'hello');
+    try {
+      const attachKeys = ['expired-key', 'test-key'];
+      const attachCredentials = makeCallbackCredentials(async () => attachKeys.shift()!);
+      const attachApi = makeApi({apiKey: undefined, credentials: attachCredentials});
+      assert.deepEqual(await attachApi.attach({files: [filePath]}), [1]);
+      assert.lengthOf(attachKeys, 0);
+      assert.equal(String(await attachApi.downloadAttachment({attachmentId: 1})), 'hello');
+
+      // Streams given by the caller can't be read again, so the call fails rather than retrying.
+      attachKeys.push('expired-key', 'test-key');
+      attachCredentials.invalidate!(serverUrl);
+      await assert.isRejected(attachApi.attach({files: [{data: fse.createReadStream(filePath), filename: 'a.txt'}]}),
+        AuthError);
+      assert.lengthOf(attachKeys, 1);
+    } finally {
+      await fse.remove(filePath);
+    }
+  });
 });
@@ -0,0 +1,74 @@
+import {AxiosError} from 'axios';
+import {assert} from 'chai';
+import {delay, getRetryDelay, isIdempotentMethod, parseRetryAfter} from '../../lib/retry';
+
+// Returns an error like axios produces for a response with the given status, or for a network
+// error with the given code.
+function makeError(statusOrCode: number | string, headers: {[name: string]: string} = {}): AxiosError {
+  return (typeof statusOrCode === 'number' ?
+    {response: {status: statusOrCode, headers}} :
+    {code: statusOrCode}) as unknown as AxiosError;
+}
+
+describe("retry", function() {
+  const policy = {initialDelayMs: 100, maxDelayMs: 1000};
+
+  it("should parse Retry-After headers", function() {
+    assert.equal(parseRetryAfter('3'), 3000);
+    assert.equal(parseRetryAfter(' 0 '), 0);
+    assert.isNull(parseRetryAfter(undefined));
+    assert.isNull(parseRetryAfter('soon'));
+
+    const ms = parseRetryAfter(new Date(Date.now() + 5000).toUTCString())!;
+    assert.isAbove(ms, 3000);
+    assert.isAtMost(ms, 5000);
+    assert.equal(parseRetryAfter('Wed, 21 Oct 2015 07:28:00 GMT'), 0);
+  });
+
+  it("should retry idempotent requests on transient failures", function() {
+    assert.isTrue(isIdempotentMethod('get'));
+    assert.isTrue(isIdempotentMethod('PUT'));
+    assert.isFalse(isIdempotentMethod('POST'));
+
+    for (const err of [makeError(503), makeError(429), makeError('ECONNRESET'), makeError('ECONNREFUSED')]) {
+      assert.isNotNull(getRetryDelay(err, policy, 1, true));
+    }
+    for (const err of [makeError(500), makeError(404), makeError('EPROTO')]) {
+      assert.isNull(getRetryDelay(err, policy, 1, true));
+    }
+  });
+
+  it("should retry other requests only if they were not processed", function() {
+    assert.isNotNull(getRetryDelay(makeError(429), policy, 1, false));
+    assert.isNotNull(getRetryDelay(makeError('ECONNREFUSED'), policy, 1, false));
+    assert.isNull(getRetryDelay(makeError(503), policy, 1, false));
+    assert.isNull(getRetryDelay(makeError('ECONNRESET'), policy, 1, false));
+  });
+
+  it("should back off exponentially, up to the limits of the policy", function() {
+    for (const attempt of [1, 2, 3]) {
+      const delayMs = getRetryDelay(makeError(503), {...policy, maxAttempts: 4}, attempt, true)!;
+      const backoffMs = 100 * Math.pow(2, attempt - 1);
+      assert.isAtLeast(delayMs, backoffMs / 2);
+      assert.isAtMost(delayMs, backoffMs);
+    }
+    assert.isAtMost(getRetryDelay(makeError(503), {...policy, maxAttempts: 10}, 8, true)!, 1000);
+    assert.isNull(getRetryDelay(makeError(503), {...policy, maxAttempts: 3}, 3, true));
+    assert.isNull(getRetryDelay(makeError(503), {...policy, retryStatuses: [502]}, 1, true));
+  });
+
+  it("should follow Retry-After, within maxDelayMs", function() {
+    assert.equal(getRetryDelay(makeError(429, {'retry-after': '0'}), policy, 1, false), 0);
+    assert.equal(getRetryDelay(makeError(503, {'retry-after': '120'}), policy, 1, true), 1000);
+  });
+
+  it("should stop waiting when aborted", async function() {
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 10);
+    const start = Date.now();
+    await delay(60000, controller.signal);
+    assert.isBelow(Date.now() - start, 5000);
+    await delay(60000, controller.signal);
+    assert.isBelow(Date.now() - start, 5000);
+  });
+});
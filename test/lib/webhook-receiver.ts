@@ -0,0 +1,83 @@
+import axios from 'axios';
+import {assert} from 'chai';
+import * as chai from 'chai';
+import * as chaiAsPromised from 'chai-as-promised';
+import {AddressInfo} from 'net';
+import {IWebhookEvent, sendWebhookRecords, WebhookReceiver} from '../../lib';
+
+chai.use(chaiAsPromised);
+
+describe("WebhookReceiver", function() {
+  let receiver: WebhookReceiver;
+  let baseUrl: string;
+  let events: IWebhookEvent[];
+  let failures: number;
+
+  beforeEach(async function() {
+    events = [];
+    failures = 0;
+    receiver = new WebhookReceiver({
+      authorization: 'Bearer hook-secret',
+      maxBodySize: 1000,
+      routes: [{
+        path: '/grist/people',
+        tableId: 'People',
+        columns: ['Name'],
+        handler: (event) => {
+          if (failures > 0) { failures--; throw new Error('handler failed'); }
+          events.push(event);
+        },
+      }],
+    });
+    const server = await receiver.listen(0, '127.0.0.1');
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async function() {
+    await receiver.close();
+  });
+
+  // Returns the status of the response to a request, with its error message if any.
+  async function getStatus(promise: Promise<unknown>): Promise<string> {
+    return promise.then(() => '200', (err) => `${err.response.status} ${err.response.data.error}`);
+  }
+
+  it("should pass records to the route's handler", async function() {
+    await sendWebhookRecords(`${baseUrl}/grist/people`, [{id: 1, Name: 'Alice'}, {id: 2, Name: 'Bob', Age: 30}],
+                             'Bearer hook-secret');
+    assert.lengthOf(events, 1);
+    assert.deepInclude(events[0], {tableId: 'People', path: '/grist/people',
+                                   records: [{id: 1, Name: 'Alice'}, {id: 2, Name: 'Bob', Age: 30}]});
+    assert.instanceOf(events[0].receivedAt, Date);
+  });
+
+  it("should reject requests it can't accept", async function() {
+    const url = `${baseUrl}/grist/people`;
+    const auth = 'Bearer hook-secret';
+    assert.equal(await getStatus(sendWebhookRecords(`${baseUrl}/grist/other`, [], auth)),
+      '404 No webhook route for /grist/other');
+    assert.equal(await getStatus(sendWebhookRecords(url, [{id: 1, Name: 'Alice'}], 'Bearer wrong')),
+      '401 Invalid authorization');
+    assert.equal(await getStatus(axios.get(url, {headers: {Authorization: auth}})), '405 Method GET not allowed');
+    assert.equal(await getStatus(sendWebhookRecords(url, [{id: 1}], auth)),
+      '400 People record 1 is missing columns: Name');
+    assert.equal(await getStatus(sendWebhookRecords(url, [{Name: 'Alice'}], auth)),
+      '400 Invalid People record: expected an object with numeric id');
+    const headers = {'Authorization': auth, 'Content-Type': 'application/json'};
+    assert.equal(await getStatus(axios.post(url, '{"id": ', {headers})),
+      '400 Invalid JSON: Unexpected end of JSON input');
+    // Oversized requests are rejected without reading the rest of the body.
+    assert.equal(await getStatus(sendWebhookRecords(url, [{id: 1, Name: 'x'.repeat(1000)}], auth)),
+      '413 Request body exceeds 1000 bytes');
+    assert.lengthOf(events, 0);
+  });
+
+  it("should respond with an error when the handler fails, so that Grist retries", async function() {
+    failures = 1;
+    const url = `${baseUrl}/grist/people`;
+    const records = [{id: 1, Name: 'Alice'}];
+    assert.equal(await getStatus(sendWebhookRecords(url, records, 'Bearer hook-secret')), '500 handler failed');
+    await sendWebhookRecords(url, records, 'Bearer hook-secret');
+    assert.deepEqual(events.map((e) => e.records), [records]);
+  });
+});